@@ -0,0 +1,101 @@
+// Local stand-in for the compute worker: claims queued runs through
+// /api/worker/*, waits a bit and posts random affinity results.
+//
+//   WORKER_API_KEY=... node scripts/mock-worker.mjs
+//
+// Optional env: WORKER_API_URL (default http://localhost:3000),
+// MOCK_WORKER_ID, MOCK_WORKER_BATCH (runs per claim), MOCK_WORKER_FAIL_RATE.
+
+import crypto from "node:crypto";
+
+const apiUrl = (process.env.WORKER_API_URL ?? "http://localhost:3000").replace(/\/$/, "");
+const apiKey = process.env.WORKER_API_KEY ?? "";
+const workerId = process.env.MOCK_WORKER_ID ?? `mock-${crypto.randomUUID().slice(0, 8)}`;
+const batchSize = Number.parseInt(process.env.MOCK_WORKER_BATCH ?? "5", 10) || 5;
+const failRate = Number.parseFloat(process.env.MOCK_WORKER_FAIL_RATE ?? "0.05") || 0;
+const idleDelayMs = 5000;
+
+if (!apiKey) {
+  console.error("WORKER_API_KEY is required.");
+  process.exit(1);
+}
+
+let stopping = false;
+process.on("SIGINT", () => {
+  stopping = true;
+  console.log("stopping after the current batch...");
+});
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function call(path, body) {
+  const response = await fetch(`${apiUrl}/api/worker/${path}`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ worker_id: workerId, ...body }),
+  });
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`${path} ${response.status}: ${payload.error ?? "unknown error"}`);
+  }
+  return payload;
+}
+
+async function processRun(run) {
+  await sleep(500 + Math.random() * 2500);
+
+  if (Math.random() < failRate) {
+    await call("fail", { run_id: run.id, error: "mock worker: simulated failure" });
+    console.log(`failed   ${run.id}`);
+    return;
+  }
+
+  const affinityValue = Number((Math.random() * 4 - 2).toFixed(4));
+  const affinityProb = Number(Math.random().toFixed(4));
+  await call("complete", {
+    run_id: run.id,
+    affinity_value: affinityValue,
+    affinity_prob: affinityProb,
+  });
+  console.log(`done     ${run.id} value=${affinityValue} prob=${affinityProb}`);
+}
+
+async function main() {
+  console.log(`mock worker ${workerId} polling ${apiUrl}`);
+
+  while (!stopping) {
+    let runs = [];
+    try {
+      ({ runs } = await call("claim", { limit: batchSize }));
+    } catch (error) {
+      console.error(error.message);
+      await sleep(idleDelayMs);
+      continue;
+    }
+
+    if (runs.length === 0) {
+      await sleep(idleDelayMs);
+      continue;
+    }
+
+    console.log(`claimed  ${runs.length} run(s)`);
+    const heartbeat = setInterval(() => {
+      call("heartbeat", { run_ids: runs.map((run) => run.id) }).catch((error) =>
+        console.error(error.message)
+      );
+    }, 30000);
+
+    try {
+      for (const run of runs) {
+        await processRun(run).catch((error) => console.error(error.message));
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+}
+
+main();
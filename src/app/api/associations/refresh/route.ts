@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { refreshStaleAssociations } from "@/lib/associations";
+import { readJsonBody } from "@/lib/request";
+import {
+  createServiceClient,
+  getRequestUser,
+  isAdminUser,
+  isServiceConfigured,
+} from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+
+const DEFAULT_REFRESH_LIMIT = 1000;
+const MAX_REFRESH_LIMIT = 5000;
+
+export async function POST(request: Request) {
+  if (!isServiceConfigured) {
+    return NextResponse.json(
+      { error: "서버 설정이 필요합니다." },
+      { status: 500 }
+    );
+  }
+
+  const supabase = createServiceClient();
+  const user = await getRequestUser(supabase, request);
+
+  if (!user) {
+    return NextResponse.json({ error: "인증이 필요합니다." }, { status: 401 });
+  }
+
+  if (!isAdminUser(user)) {
+    return NextResponse.json({ error: "관리자 권한이 필요합니다." }, { status: 403 });
+  }
+
+  const body = await readJsonBody(request);
+  const requested = typeof body?.limit === "number" ? Math.floor(body.limit) : 0;
+  const limit =
+    requested > 0 ? Math.min(requested, MAX_REFRESH_LIMIT) : DEFAULT_REFRESH_LIMIT;
+
+  try {
+    const result = await refreshStaleAssociations(supabase, limit);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("association_cache.refresh.failed", error);
+    return NextResponse.json(
+      { error: "association 캐시 갱신에 실패했습니다." },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { normalizeIndicationId, searchIndications } from "@/lib/indications";
+import { readJsonBody } from "@/lib/request";
+import {
+  createServiceClient,
+  getRequestUser,
+  isAdminUser,
+  isServiceConfigured,
+} from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+
+const MAX_LABEL_LENGTH = 200;
+
+export async function GET(request: Request) {
+  if (!isServiceConfigured) {
+    return NextResponse.json(
+      { error: "서버 설정이 필요합니다." },
+      { status: 500 }
+    );
+  }
+
+  const supabase = createServiceClient();
+  const user = await getRequestUser(supabase, request);
+
+  if (!user) {
+    return NextResponse.json({ error: "인증이 필요합니다." }, { status: 401 });
+  }
+
+  const query = new URL(request.url).searchParams.get("q") ?? "";
+
+  try {
+    const indications = await searchIndications(supabase, query);
+    return NextResponse.json({ indications });
+  } catch (error) {
+    console.error("indications.search.failed", error);
+    return NextResponse.json(
+      { error: "indication 검색에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  if (!isServiceConfigured) {
+    return NextResponse.json(
+      { error: "서버 설정이 필요합니다." },
+      { status: 500 }
+    );
+  }
+
+  const supabase = createServiceClient();
+  const user = await getRequestUser(supabase, request);
+
+  if (!user) {
+    return NextResponse.json({ error: "인증이 필요합니다." }, { status: 401 });
+  }
+
+  if (!isAdminUser(user)) {
+    return NextResponse.json({ error: "관리자 권한이 필요합니다." }, { status: 403 });
+  }
+
+  const body = await readJsonBody(request);
+  const id = normalizeIndicationId(typeof body?.id === "string" ? body.id : "");
+  const label = typeof body?.label === "string" ? body.label.trim() : "";
+  const enabled = typeof body?.enabled === "boolean" ? body.enabled : true;
+
+  if (!id) {
+    return NextResponse.json(
+      { error: "id는 EFO_/MONDO_ 형식의 ID여야 합니다." },
+      { status: 400 }
+    );
+  }
+
+  if (!label || label.length > MAX_LABEL_LENGTH) {
+    return NextResponse.json(
+      { error: "label이 필요합니다." },
+      { status: 400 }
+    );
+  }
+
+  const { data, error } = await supabase
+    .from("indications")
+    .upsert({ id, label, enabled, created_by: user.id }, { onConflict: "id" })
+    .select("id,label,enabled")
+    .single();
+
+  if (error) {
+    return NextResponse.json(
+      { error: "indication 저장에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ indication: data });
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import {
+  JOB_STATUS_FAILED,
+  STALE_JOB_ERROR,
+  failStaleJob,
+  isStaleJob,
+  jobStages,
+  type SubmissionJobRow,
+} from "@/lib/jobs";
+import {
+  createServiceClient,
+  getRequestUser,
+  isServiceConfigured,
+} from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+
+// Stage and progress of a submission or preview job, polled by the submit
+// form. Jobs whose process died mid-way are failed here, and their staged
+// runs removed.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!isServiceConfigured) {
+    return NextResponse.json(
+      { error: "서버 설정이 필요합니다." },
+      { status: 500 }
+    );
+  }
+
+  const supabase = createServiceClient();
+  const user = await getRequestUser(supabase, request);
+
+  if (!user) {
+    return NextResponse.json({ error: "인증이 필요합니다." }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const { data, error } = await supabase
+    .from("submission_jobs")
+    .select("*")
+    .eq("id", id)
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json(
+      { error: "작업 조회에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+
+  if (!data) {
+    return NextResponse.json(
+      { error: "작업을 찾을 수 없습니다." },
+      { status: 404 }
+    );
+  }
+
+  const job = data as SubmissionJobRow;
+  // False when the job moved on since it was read.
+  const stale = isStaleJob(job) && (await failStaleJob(supabase, job));
+
+  return NextResponse.json({
+    id: job.id,
+    kind: job.kind,
+    status: stale ? JOB_STATUS_FAILED : job.status,
+    stage: job.stage,
+    stages: jobStages(job.kind),
+    progress:
+      job.progress_total === null
+        ? null
+        : { done: job.progress_done ?? 0, total: job.progress_total },
+    batch_id: job.batch_id,
+    error: stale ? STALE_JOB_ERROR : job.error,
+    error_status: stale ? 500 : job.error_status,
+    result: job.result,
+    created_at: job.created_at,
+    updated_at: job.updated_at,
+  });
+}
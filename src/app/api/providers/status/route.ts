@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { httpClientStats } from "@/lib/http";
+import { getProviders } from "@/lib/providers";
+import {
+  createServiceClient,
+  getRequestUser,
+  isAdminUser,
+  isServiceConfigured,
+} from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+
+// Per-upstream request counts, timing and circuit state for this server
+// process. Counters reset when the process restarts.
+export async function GET(request: Request) {
+  if (!isServiceConfigured) {
+    return NextResponse.json(
+      { error: "서버 설정이 필요합니다." },
+      { status: 500 }
+    );
+  }
+
+  const supabase = createServiceClient();
+  const user = await getRequestUser(supabase, request);
+
+  if (!user) {
+    return NextResponse.json({ error: "인증이 필요합니다." }, { status: 401 });
+  }
+
+  if (!isAdminUser(user)) {
+    return NextResponse.json({ error: "관리자 권한이 필요합니다." }, { status: 403 });
+  }
+
+  const clients = httpClientStats().map((client) => ({
+    name: client.name,
+    circuit: client.circuit,
+    requests: client.requests,
+    retries: client.retries,
+    failures: client.failures,
+    avg_ms: client.requests ? Math.round(client.totalMs / client.requests) : null,
+    in_flight: client.inFlight,
+    queued: client.queued,
+    last_status: client.lastStatus,
+    last_error: client.lastError,
+    last_failure_at: client.lastFailureAt,
+  }));
+
+  return NextResponse.json({ provider: getProviders().name, clients });
+}
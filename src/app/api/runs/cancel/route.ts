@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { readJsonBody } from "@/lib/request";
+import { readRunSelection } from "@/lib/runs";
+import {
+  createServiceClient,
+  getRequestUser,
+  isServiceConfigured,
+} from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  if (!isServiceConfigured) {
+    return NextResponse.json(
+      { error: "서버 설정이 필요합니다." },
+      { status: 500 }
+    );
+  }
+
+  const supabase = createServiceClient();
+  const user = await getRequestUser(supabase, request);
+
+  if (!user) {
+    return NextResponse.json({ error: "인증이 필요합니다." }, { status: 401 });
+  }
+
+  const body = await readJsonBody(request);
+  const selection = body ? readRunSelection(body) : null;
+  if (!selection) {
+    return NextResponse.json(
+      { error: "run_ids 또는 batch_id가 필요합니다." },
+      { status: 400 }
+    );
+  }
+
+  // Only queued runs can be cancelled; a worker may already hold running ones.
+  let query = supabase
+    .from("runs")
+    .update({ status: "cancelled", finished_at: new Date().toISOString() })
+    .eq("user_id", user.id)
+    .eq("status", "queued");
+  query =
+    "batchId" in selection
+      ? query.eq("batch_id", selection.batchId)
+      : query.in("id", selection.runIds);
+
+  const { data, error } = await query.select("id");
+
+  if (error) {
+    return NextResponse.json(
+      { error: "run 취소에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ cancelled: data?.length ?? 0 });
+}
@@ -0,0 +1,94 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { readJsonBody } from "@/lib/request";
+import { readRunSelection } from "@/lib/runs";
+import {
+  createServiceClient,
+  getRequestUser,
+  isServiceConfigured,
+} from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  if (!isServiceConfigured) {
+    return NextResponse.json(
+      { error: "서버 설정이 필요합니다." },
+      { status: 500 }
+    );
+  }
+
+  const supabase = createServiceClient();
+  const user = await getRequestUser(supabase, request);
+
+  if (!user) {
+    return NextResponse.json({ error: "인증이 필요합니다." }, { status: 401 });
+  }
+
+  const body = await readJsonBody(request);
+  const selection = body ? readRunSelection(body) : null;
+  if (!selection) {
+    return NextResponse.json(
+      { error: "run_ids 또는 batch_id가 필요합니다." },
+      { status: 400 }
+    );
+  }
+
+  let query = supabase.from("runs").delete().eq("user_id", user.id);
+  query =
+    "batchId" in selection
+      ? query.eq("batch_id", selection.batchId)
+      : query.in("id", selection.runIds);
+
+  const { data, error } = await query.select("id,batch_id");
+
+  if (error) {
+    return NextResponse.json(
+      { error: "run 삭제에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+
+  const batchIds = Array.from(
+    new Set(
+      (data ?? [])
+        .map((run) => run.batch_id as string | null)
+        .filter((batchId): batchId is string => Boolean(batchId))
+    )
+  );
+  await deleteEmptyBatches(supabase, user.id, batchIds);
+
+  return NextResponse.json({ deleted: data?.length ?? 0 });
+}
+
+// Batches left without runs would otherwise linger in the batch list. The runs
+// are already gone at this point, so failures are only logged.
+async function deleteEmptyBatches(
+  supabase: SupabaseClient,
+  userId: string,
+  batchIds: string[]
+) {
+  for (const batchId of batchIds) {
+    const { count, error: countError } = await supabase
+      .from("runs")
+      .select("id", { count: "exact", head: true })
+      .eq("batch_id", batchId);
+
+    if (countError) {
+      console.error("runs.delete.batch_failed", { batchId, error: countError });
+      continue;
+    }
+    if (count) {
+      continue;
+    }
+
+    const { error } = await supabase
+      .from("batches")
+      .delete()
+      .eq("id", batchId)
+      .eq("user_id", userId);
+    if (error) {
+      console.error("runs.delete.batch_failed", { batchId, error });
+    }
+  }
+}
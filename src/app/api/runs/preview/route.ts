@@ -0,0 +1,62 @@
+import { after, NextResponse } from "next/server";
+import { JOB_KIND_PREVIEW, createSubmissionJob, processPreviewJob } from "@/lib/jobs";
+import { checkSubmissionSize, readSubmissionForm } from "@/lib/submission";
+import {
+  createServiceClient,
+  getRequestUser,
+  isServiceConfigured,
+} from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+// Same limit as POST /api/runs: the preview runs the same lookups in after().
+export const maxDuration = 300;
+
+// Dry run of POST /api/runs: same form, same checks, nothing written but the
+// job. Answers 202 with a job id; the preview is the job's result at
+// GET /api/jobs/[id].
+export async function POST(request: Request) {
+  const modelVersion = process.env.MODEL_VERSION ?? "";
+
+  if (!isServiceConfigured || !modelVersion) {
+    return NextResponse.json(
+      { error: "서버 설정이 필요합니다." },
+      { status: 500 }
+    );
+  }
+
+  const supabase = createServiceClient();
+  const user = await getRequestUser(supabase, request);
+
+  if (!user) {
+    return NextResponse.json({ error: "인증이 필요합니다." }, { status: 401 });
+  }
+
+  const sizeError = checkSubmissionSize(request);
+  if (sizeError) {
+    return NextResponse.json(
+      { error: sizeError.error },
+      { status: sizeError.status }
+    );
+  }
+
+  const submission = await readSubmissionForm(await request.formData());
+  if ("error" in submission) {
+    return NextResponse.json(
+      { error: submission.error },
+      { status: submission.status }
+    );
+  }
+
+  const jobId = await createSubmissionJob(supabase, user.id, JOB_KIND_PREVIEW);
+
+  if (!jobId) {
+    return NextResponse.json(
+      { error: "작업 생성에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+
+  after(() => processPreviewJob(supabase, jobId, submission, modelVersion));
+
+  return NextResponse.json({ job_id: jobId }, { status: 202 });
+}
@@ -0,0 +1,140 @@
+import { NextResponse } from "next/server";
+import { associationKey, loadAssociationScores } from "@/lib/associations";
+import { resolveEnsemblIds } from "@/lib/genes";
+import { readJsonBody } from "@/lib/request";
+import {
+  createServiceClient,
+  getRequestUser,
+  isServiceConfigured,
+} from "@/lib/supabase/server";
+import {
+  GENE_WARNINGS,
+  WARNING_ASSOCIATION_UNAVAILABLE,
+} from "@/lib/warnings";
+
+export const runtime = "nodejs";
+
+// Replaces a run's gene mapping with a user-supplied symbol or Ensembl ID and
+// re-fetches its association scores. Affinity results are left untouched.
+export async function POST(request: Request) {
+  if (!isServiceConfigured) {
+    return NextResponse.json(
+      { error: "서버 설정이 필요합니다." },
+      { status: 500 }
+    );
+  }
+
+  const supabase = createServiceClient();
+  const user = await getRequestUser(supabase, request);
+
+  if (!user) {
+    return NextResponse.json({ error: "인증이 필요합니다." }, { status: 401 });
+  }
+
+  const body = await readJsonBody(request);
+  const runId = typeof body?.run_id === "string" ? body.run_id.trim() : "";
+  const gene = typeof body?.gene === "string" ? body.gene.trim() : "";
+
+  if (!runId || !gene) {
+    return NextResponse.json(
+      { error: "run_id와 gene이 필요합니다." },
+      { status: 400 }
+    );
+  }
+
+  const { data: run, error: runError } = await supabase
+    .from("runs")
+    .select("id,indication_id,indication_ids,warnings")
+    .eq("id", runId)
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  if (runError) {
+    return NextResponse.json(
+      { error: "run 조회에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+
+  if (!run) {
+    return NextResponse.json(
+      { error: "run을 찾을 수 없습니다." },
+      { status: 404 }
+    );
+  }
+
+  const { genes, lookupFailed } = await resolveEnsemblIds([gene]);
+
+  if (lookupFailed.has(gene)) {
+    return NextResponse.json(
+      { error: "유전자 조회에 실패했습니다. 잠시 후 다시 시도하세요." },
+      { status: 502 }
+    );
+  }
+
+  const resolved = genes.get(gene);
+  if (!resolved?.ensemblId) {
+    return NextResponse.json(
+      {
+        error: "유전자를 매핑할 수 없습니다.",
+        warnings: resolved?.warnings ?? [],
+      },
+      { status: 422 }
+    );
+  }
+
+  const targetEnsemblId = resolved.ensemblId;
+  const indicationIds: string[] = run.indication_ids?.length
+    ? run.indication_ids
+    : run.indication_id
+      ? [run.indication_id]
+      : [];
+  const associations = await loadAssociationScores(
+    supabase,
+    indicationIds,
+    [targetEnsemblId]
+  );
+  const associationScores = Object.fromEntries(
+    indicationIds.map((indication) => [
+      indication,
+      associations.scores.get(associationKey(indication, targetEnsemblId)) ?? null,
+    ])
+  );
+  const unavailable = indicationIds.some((indication) =>
+    associations.unavailable.has(associationKey(indication, targetEnsemblId))
+  );
+
+  const replaced = new Set<string>([...GENE_WARNINGS, WARNING_ASSOCIATION_UNAVAILABLE]);
+  const warnings = [
+    ...((run.warnings ?? []) as string[]).filter((code) => !replaced.has(code)),
+    ...resolved.warnings,
+    ...(unavailable ? [WARNING_ASSOCIATION_UNAVAILABLE] : []),
+  ];
+
+  const { error: updateError } = await supabase
+    .from("runs")
+    .update({
+      target_ensembl_id: targetEnsemblId,
+      association_score: associationScores[indicationIds[0]] ?? null,
+      association_scores: associationScores,
+      association_release: associations.release,
+      warnings: warnings.length ? warnings : null,
+    })
+    .eq("id", run.id)
+    .eq("user_id", user.id);
+
+  if (updateError) {
+    return NextResponse.json(
+      { error: "매핑 저장에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({
+    run_id: run.id,
+    target_ensembl_id: targetEnsemblId,
+    association_scores: associationScores,
+    association_release: associations.release,
+    warnings,
+  });
+}
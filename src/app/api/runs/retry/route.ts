@@ -0,0 +1,219 @@
+import { NextResponse } from "next/server";
+import { ligandsFromRows, parseCompoundIdentifier } from "@/lib/compounds";
+import { readJsonBody } from "@/lib/request";
+import {
+  chunk,
+  fetchDoneByHash,
+  inputHashFor,
+  readRunSelection,
+  targetFromSequence,
+  validatePair,
+} from "@/lib/runs";
+import { summarizeStatuses } from "@/lib/submission";
+import {
+  createServiceClient,
+  getRequestUser,
+  isServiceConfigured,
+} from "@/lib/supabase/server";
+import {
+  applyUniprotEntry,
+  loadUniprotEntries,
+  normalizeUniprotAccession,
+} from "@/lib/uniprot";
+import {
+  GENE_WARNINGS,
+  WARNING_ASSOCIATION_UNAVAILABLE,
+  WARNING_PREVIOUS_RESULT,
+} from "@/lib/warnings";
+
+export const runtime = "nodejs";
+// Retrying a whole batch repeats the structure and UniProt lookups for up to
+// SUBMISSION_MAX_PAIRS runs.
+export const maxDuration = 300;
+
+type RetryableRun = {
+  id: string;
+  smiles: string | null;
+  sequence: string | null;
+  ligand_name: string | null;
+  ligand_source: string | null;
+  ligand_identifier: string | null;
+  gene_name: string | null;
+  uniprot_accession: string | null;
+  uniprot_entry_version: number | null;
+  uniprot_sequence_version: number | null;
+  warnings: string[] | null;
+};
+
+const RETRYABLE_STATUSES = ["failed", "cancelled"];
+const PAGE_SIZE = 1000;
+const RETRY_CHUNK_SIZE = 1000;
+// Mapping warnings describe the association, which a retry does not touch.
+const CARRIED_WARNINGS = new Set([...GENE_WARNINGS, WARNING_ASSOCIATION_UNAVAILABLE]);
+
+export async function POST(request: Request) {
+  const modelVersion = process.env.MODEL_VERSION ?? "";
+
+  if (!isServiceConfigured || !modelVersion) {
+    return NextResponse.json(
+      { error: "서버 설정이 필요합니다." },
+      { status: 500 }
+    );
+  }
+
+  const supabase = createServiceClient();
+  const user = await getRequestUser(supabase, request);
+
+  if (!user) {
+    return NextResponse.json({ error: "인증이 필요합니다." }, { status: 401 });
+  }
+
+  const body = await readJsonBody(request);
+  const selection = body ? readRunSelection(body) : null;
+  if (!selection) {
+    return NextResponse.json(
+      { error: "run_ids 또는 batch_id가 필요합니다." },
+      { status: 400 }
+    );
+  }
+
+  const runs: RetryableRun[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from("runs")
+      .select(
+        "id,smiles,sequence,ligand_name,ligand_source,ligand_identifier,gene_name,uniprot_accession,uniprot_entry_version,uniprot_sequence_version,warnings"
+      )
+      .eq("user_id", user.id)
+      .in("status", RETRYABLE_STATUSES);
+    query =
+      "batchId" in selection
+        ? query.eq("batch_id", selection.batchId)
+        : query.in("id", selection.runIds);
+
+    const { data, error } = await query
+      .order("created_at", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      return NextResponse.json(
+        { error: "run 조회에 실패했습니다." },
+        { status: 500 }
+      );
+    }
+
+    runs.push(...((data ?? []) as RetryableRun[]));
+    if (!data || data.length < PAGE_SIZE) {
+      break;
+    }
+  }
+
+  // Ligands and targets whose structure or sequence never arrived from an
+  // external lookup get another one.
+  const ligands = await ligandsFromRows(
+    runs.map((run) => ({
+      smiles: run.smiles ?? "",
+      ligandName: run.ligand_name ?? "",
+      identifier: run.ligand_identifier
+        ? parseCompoundIdentifier(run.ligand_identifier)
+        : null,
+    }))
+  );
+  const uniprotLookup = await loadUniprotEntries(
+    runs
+      .filter((run) => !run.sequence && run.uniprot_accession)
+      .map((run) => run.uniprot_accession as string)
+  );
+
+  // Inputs are validated again so a run that failed on a since-fixed rule (or
+  // on a worker error) goes back through the same checks as a fresh upload.
+  const revalidated = runs.map((run, index) => {
+    const ligand = ligands[index];
+    // An accession that is the name itself was never confirmed by UniProt
+    // and is looked up as a name again.
+    const accessionIsName =
+      normalizeUniprotAccession(run.gene_name ?? "") === run.uniprot_accession;
+    const parsed = targetFromSequence(
+      run.sequence ?? "",
+      run.gene_name ?? "",
+      accessionIsName ? "" : run.uniprot_accession ?? ""
+    );
+    const target = parsed.sequence
+      ? { ...parsed, uniprot: null, uniprotWarnings: [] }
+      : applyUniprotEntry(parsed, uniprotLookup);
+    const warnings = validatePair(ligand, target);
+    return {
+      run,
+      ligand,
+      target,
+      warnings,
+      inputHash: inputHashFor(ligand.smilesCanon, target.sequence, modelVersion),
+    };
+  });
+
+  const doneByHash = await fetchDoneByHash(
+    supabase,
+    revalidated
+      .filter((entry) => entry.warnings.length === 0 && entry.inputHash)
+      .map((entry) => entry.inputHash as string)
+  );
+
+  if (!doneByHash) {
+    return NextResponse.json(
+      { error: "중복 검사에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+
+  const rowsToUpdate = revalidated.map(({ run, ligand, target, warnings, inputHash }) => {
+    const prior =
+      warnings.length === 0 && inputHash ? doneByHash.get(inputHash) : undefined;
+    const status = warnings.length > 0 ? "failed" : prior ? "done" : "queued";
+    const carried = (run.warnings ?? []).filter((code) => CARRIED_WARNINGS.has(code));
+    const nextWarnings = prior
+      ? [WARNING_PREVIOUS_RESULT, ...carried]
+      : [...warnings, ...target.uniprotWarnings, ...carried];
+    return {
+      id: run.id,
+      status,
+      smiles: ligand.smiles,
+      smiles_canon: ligand.smilesCanon,
+      ligand_source: run.smiles ? run.ligand_source : ligand.source,
+      sequence: target.sequence,
+      uniprot_entry_version:
+        target.uniprot?.entryVersion ?? run.uniprot_entry_version,
+      uniprot_sequence_version:
+        target.uniprot?.sequenceVersion ?? run.uniprot_sequence_version,
+      input_hash: inputHash,
+      model_version: modelVersion,
+      affinity_value: prior?.affinity_value ?? null,
+      affinity_prob: prior?.affinity_prob ?? null,
+      warnings: nextWarnings.length ? nextWarnings : null,
+    };
+  });
+
+  // retry_runs resets a whole chunk in one statement, and only runs that are
+  // still failed or cancelled, so a run a worker or another retry picked up in
+  // the meantime is left alone. Should a later chunk fail, runs it did not
+  // reset are still failed and can simply be retried again.
+  const statuses: Array<{ status: string }> = [];
+  for (const batch of chunk(rowsToUpdate, RETRY_CHUNK_SIZE)) {
+    const { data, error } = await supabase.rpc("retry_runs", {
+      p_user_id: user.id,
+      p_runs: batch,
+    });
+
+    if (error) {
+      console.error("runs.retry.failed", error);
+      return NextResponse.json(
+        { error: "run 재시도에 실패했습니다." },
+        { status: 500 }
+      );
+    }
+    ((data ?? []) as string[]).forEach((status) => statuses.push({ status }));
+  }
+
+  const summary = summarizeStatuses(statuses);
+
+  return NextResponse.json({ summary });
+}
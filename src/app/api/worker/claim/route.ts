@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { readJsonBody } from "@/lib/request";
+import { createServiceClient, isServiceConfigured } from "@/lib/supabase/server";
+import {
+  authorizeWorker,
+  leaseSeconds,
+  readClaimLimit,
+  readWorkerId,
+} from "@/lib/worker";
+
+export const runtime = "nodejs";
+
+type ClaimedRun = {
+  id: string;
+  smiles_canon: string | null;
+  sequence: string | null;
+  input_hash: string | null;
+  model_version: string | null;
+  lease_expires_at: string | null;
+};
+
+export async function POST(request: Request) {
+  const unauthorized = authorizeWorker(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  if (!isServiceConfigured) {
+    return NextResponse.json(
+      { error: "서버 설정이 필요합니다." },
+      { status: 500 }
+    );
+  }
+
+  const body = await readJsonBody(request);
+  const workerId = body ? readWorkerId(body) : null;
+  if (!body || !workerId) {
+    return NextResponse.json(
+      { error: "worker_id가 필요합니다." },
+      { status: 400 }
+    );
+  }
+
+  const supabase = createServiceClient();
+  const { data, error } = await supabase.rpc("claim_runs", {
+    p_worker_id: workerId,
+    p_limit: readClaimLimit(body),
+    p_lease_seconds: leaseSeconds(),
+  });
+
+  if (error) {
+    console.error("worker.claim.failed", error);
+    return NextResponse.json(
+      { error: "run 할당에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+
+  const runs = ((data ?? []) as ClaimedRun[]).map((run) => ({
+    id: run.id,
+    smiles: run.smiles_canon,
+    sequence: run.sequence,
+    input_hash: run.input_hash,
+    model_version: run.model_version,
+    lease_expires_at: run.lease_expires_at,
+  }));
+
+  return NextResponse.json({ runs });
+}
@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server";
+import { readJsonBody } from "@/lib/request";
+import { createServiceClient, isServiceConfigured } from "@/lib/supabase/server";
+import {
+  authorizeWorker,
+  isRunId,
+  parseAffinityResult,
+  readWorkerId,
+} from "@/lib/worker";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  const unauthorized = authorizeWorker(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  if (!isServiceConfigured) {
+    return NextResponse.json(
+      { error: "서버 설정이 필요합니다." },
+      { status: 500 }
+    );
+  }
+
+  const body = await readJsonBody(request);
+  const workerId = body ? readWorkerId(body) : null;
+  const runId = typeof body?.run_id === "string" ? body.run_id : "";
+  if (!body || !workerId || !runId) {
+    return NextResponse.json(
+      { error: "worker_id와 run_id가 필요합니다." },
+      { status: 400 }
+    );
+  }
+
+  if (!isRunId(runId)) {
+    return NextResponse.json(
+      { error: "run_id는 UUID여야 합니다." },
+      { status: 400 }
+    );
+  }
+
+  const result = parseAffinityResult(body);
+  if (!result) {
+    return NextResponse.json(
+      {
+        error:
+          "affinity_value는 유한한 숫자, affinity_prob는 0~1 사이 숫자여야 합니다.",
+      },
+      { status: 400 }
+    );
+  }
+
+  const supabase = createServiceClient();
+  const { data, error } = await supabase
+    .from("runs")
+    .update({
+      status: "done",
+      affinity_value: result.affinityValue,
+      affinity_prob: result.affinityProb,
+      finished_at: new Date().toISOString(),
+      lease_expires_at: null,
+    })
+    .eq("id", runId)
+    .eq("worker_id", workerId)
+    .eq("status", "running")
+    // A lease that ran out may already be someone else's run, even under the
+    // same worker id after a restart.
+    .gt("lease_expires_at", new Date().toISOString())
+    .select("id");
+
+  if (error) {
+    console.error("worker.complete.failed", error);
+    return NextResponse.json(
+      { error: "결과 저장에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+
+  if (!data || data.length === 0) {
+    return NextResponse.json(
+      { error: "lease가 만료되었거나 이 worker에 할당된 run이 아닙니다." },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({ id: runId, status: "done" });
+}
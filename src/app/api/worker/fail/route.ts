@@ -0,0 +1,108 @@
+import { NextResponse } from "next/server";
+import { readJsonBody } from "@/lib/request";
+import { createServiceClient, isServiceConfigured } from "@/lib/supabase/server";
+import { WARNING_WORKER_FAILED } from "@/lib/warnings";
+import { authorizeWorker, isRunId, readWorkerId } from "@/lib/worker";
+
+export const runtime = "nodejs";
+
+const MAX_ERROR_MESSAGE_LENGTH = 1000;
+
+export async function POST(request: Request) {
+  const unauthorized = authorizeWorker(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  if (!isServiceConfigured) {
+    return NextResponse.json(
+      { error: "서버 설정이 필요합니다." },
+      { status: 500 }
+    );
+  }
+
+  const body = await readJsonBody(request);
+  const workerId = body ? readWorkerId(body) : null;
+  const runId = typeof body?.run_id === "string" ? body.run_id : "";
+  if (!body || !workerId || !runId) {
+    return NextResponse.json(
+      { error: "worker_id와 run_id가 필요합니다." },
+      { status: 400 }
+    );
+  }
+
+  if (!isRunId(runId)) {
+    return NextResponse.json(
+      { error: "run_id는 UUID여야 합니다." },
+      { status: 400 }
+    );
+  }
+
+  const errorMessage =
+    typeof body.error === "string"
+      ? body.error.slice(0, MAX_ERROR_MESSAGE_LENGTH)
+      : null;
+
+  const supabase = createServiceClient();
+  // Warnings from submission (gene mapping, associations) stay on the run.
+  const { data: run, error: readError } = await supabase
+    .from("runs")
+    .select("warnings")
+    .eq("id", runId)
+    .eq("worker_id", workerId)
+    .eq("status", "running")
+    .gt("lease_expires_at", new Date().toISOString())
+    .maybeSingle();
+
+  if (readError) {
+    console.error("worker.fail.failed", readError);
+    return NextResponse.json(
+      { error: "실패 상태 저장에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+
+  if (!run) {
+    return NextResponse.json(
+      { error: "lease가 만료되었거나 이 worker에 할당된 run이 아닙니다." },
+      { status: 409 }
+    );
+  }
+
+  const warnings = ((run.warnings as string[] | null) ?? []).filter(
+    (code) => code !== WARNING_WORKER_FAILED
+  );
+  const { data, error } = await supabase
+    .from("runs")
+    .update({
+      status: "failed",
+      warnings: [...warnings, WARNING_WORKER_FAILED],
+      error_message: errorMessage,
+      finished_at: new Date().toISOString(),
+      lease_expires_at: null,
+    })
+    .eq("id", runId)
+    .eq("worker_id", workerId)
+    .eq("status", "running")
+    // A lease that ran out may already be someone else's run, even under the
+    // same worker id after a restart.
+    .gt("lease_expires_at", new Date().toISOString())
+    .select("id");
+
+  if (error) {
+    console.error("worker.fail.failed", error);
+    return NextResponse.json(
+      { error: "실패 상태 저장에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+
+  if (!data || data.length === 0) {
+    return NextResponse.json(
+      { error: "lease가 만료되었거나 이 worker에 할당된 run이 아닙니다." },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({ id: runId, status: "failed" });
+}
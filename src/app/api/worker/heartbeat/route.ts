@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import { readJsonBody } from "@/lib/request";
+import { createServiceClient, isServiceConfigured } from "@/lib/supabase/server";
+import {
+  MAX_HEARTBEAT_RUN_IDS,
+  authorizeWorker,
+  isRunId,
+  leaseSeconds,
+  readRunIds,
+  readWorkerId,
+} from "@/lib/worker";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  const unauthorized = authorizeWorker(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  if (!isServiceConfigured) {
+    return NextResponse.json(
+      { error: "서버 설정이 필요합니다." },
+      { status: 500 }
+    );
+  }
+
+  const body = await readJsonBody(request);
+  const workerId = body ? readWorkerId(body) : null;
+  const runIds = body ? readRunIds(body) : [];
+  if (!workerId || runIds.length === 0) {
+    return NextResponse.json(
+      { error: "worker_id와 run_ids가 필요합니다." },
+      { status: 400 }
+    );
+  }
+
+  if (runIds.length > MAX_HEARTBEAT_RUN_IDS) {
+    return NextResponse.json(
+      { error: `run_ids는 최대 ${MAX_HEARTBEAT_RUN_IDS}개까지 보낼 수 있습니다.` },
+      { status: 400 }
+    );
+  }
+
+  if (!runIds.every(isRunId)) {
+    return NextResponse.json(
+      { error: "run_id는 UUID여야 합니다." },
+      { status: 400 }
+    );
+  }
+
+  const now = Date.now();
+  const leaseExpiresAt = new Date(now + leaseSeconds() * 1000).toISOString();
+
+  const supabase = createServiceClient();
+  const { data, error } = await supabase
+    .from("runs")
+    .update({ lease_expires_at: leaseExpiresAt })
+    .in("id", runIds)
+    .eq("worker_id", workerId)
+    .eq("status", "running")
+    // An expired lease is lost; the worker has to claim the run again.
+    .gt("lease_expires_at", new Date(now).toISOString())
+    .select("id");
+
+  if (error) {
+    console.error("worker.heartbeat.failed", error);
+    return NextResponse.json(
+      { error: "lease 갱신에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+
+  const renewed = (data ?? []).map((row) => row.id as string);
+  const lost = runIds.filter((id) => !renewed.includes(id));
+
+  return NextResponse.json({
+    renewed,
+    lost,
+    lease_expires_at: leaseExpiresAt,
+  });
+}
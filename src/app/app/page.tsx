@@ -1,15 +1,33 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import styles from "./app.module.css";
 import { createBrowserClient, isSupabaseConfigured } from "@/lib/supabase/browser";
 import {
   DEFAULT_INDICATION_ID,
-  INDICATIONS,
-  getIndicationLabel,
+  MAX_INDICATIONS,
+  fetchIndicationLabels,
+  searchIndications,
+  type IndicationOption,
 } from "@/lib/indications";
-import { stringifyCsv } from "@/lib/csv";
+import {
+  COLUMN_ROLES,
+  guessColumnMapping,
+  type ColumnFileKind,
+  type ColumnMapping,
+  type SubmissionColumnMapping,
+} from "@/lib/columns";
+import {
+  decodeCsvBytes,
+  parseCsv,
+  stringifyCsv,
+  type CsvDetection,
+} from "@/lib/csv";
+import { isFastaFileName } from "@/lib/fasta";
+import { isSdfFileName } from "@/lib/sdf";
+import { describeWarning } from "@/lib/warnings";
+import { isXlsxFileName, parseXlsx } from "@/lib/xlsx";
 
 type RunRow = {
   id: string;
@@ -22,25 +40,275 @@ type RunRow = {
   ligand_name: string | null;
   gene_name: string | null;
   indication_id: string | null;
+  indication_ids: string[] | null;
   association_score: number | null;
+  association_scores: Record<string, number | null> | null;
+};
+
+type BatchRow = {
+  id: string;
+  created_at: string | null;
+  mode: string | null;
+  memo: string | null;
+  indication_id: string | null;
+  indication_ids: string[] | null;
+  ligand_file_name: string | null;
+  target_file_name: string | null;
+  pairs_file_name: string | null;
+  pair_count: number | null;
+};
+
+type BatchProgress = {
+  batch_id: string;
+  total: number;
+  queued: number;
+  running: number;
+  done: number;
+  failed: number;
+  cancelled: number;
+};
+
+type RunAction = "cancel" | "retry" | "delete";
+
+type RunActionTarget = { run_ids: string[] } | { batch_id: string };
+
+type PendingRunAction = {
+  action: RunAction;
+  target: RunActionTarget;
+  label: string;
+};
+
+type SubmissionPreviewResult = {
+  mode: string;
+  pairs: number;
+  summary: { total: number; queued: number; done: number; failed: number };
+  cached: number;
+  warning_counts: Record<string, number>;
+  rows: Array<{
+    ligand_row: number;
+    target_row: number;
+    ligand_name: string | null;
+    gene_name: string | null;
+    status: string;
+    warnings: string[];
+  }>;
+  rows_truncated: boolean;
+  genes: Array<{
+    name: string;
+    uniprot_accession: string | null;
+    target_ensembl_id: string | null;
+    warnings: string[];
+    lookup_failed: boolean;
+  }>;
+};
+
+type SubmissionPreview = SubmissionPreviewResult & {
+  // Inputs the preview was made for; any change invalidates it.
+  key: string;
 };
 
+type SubmissionResult = {
+  mode: string;
+  pairs: number;
+  summary: { total: number; queued: number; done: number; failed: number };
+};
+
+// Submissions and previews both run as jobs; `result` depends on which.
+type SubmissionJob<Result = unknown> = {
+  id: string;
+  status: string;
+  stage: string;
+  stages: string[];
+  progress: { done: number; total: number } | null;
+  error: string | null;
+  result: Result | null;
+};
+
+const JOB_STAGE_LABELS: Record<string, string> = {
+  queued: "대기",
+  parsing: "파일 파싱·리간드 조회",
+  targets: "UniProt·Ensembl 매핑",
+  duplicates: "이전 결과 확인",
+  associations: "OpenTargets association 조회",
+  inserting: "runs 저장",
+};
+
+const COLUMN_PREVIEW_ROWS = 5;
+
+type ColumnPreview = {
+  headers: string[];
+  rows: string[][];
+  detection: CsvDetection;
+  // Workbook sheets to choose from; empty for CSV.
+  sheets: string[];
+};
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ",": "쉼표",
+  "\t": "탭",
+  ";": "세미콜론",
+  "|": "세로줄",
+};
+
+// Parses a chosen CSV or workbook sheet in the browser so its columns can be
+// mapped before anything is sent. Returns null for FASTA content.
+async function readColumnPreview(
+  file: File,
+  sheet: string
+): Promise<ColumnPreview | null> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  if (isXlsxFileName(file.name)) {
+    const table = await parseXlsx(bytes, sheet);
+    return {
+      headers: table.headers,
+      rows: table.rows.slice(0, COLUMN_PREVIEW_ROWS),
+      detection: {
+        encoding: "xlsx",
+        delimiter: "",
+        aliases: table.aliases,
+        sheet: table.sheet,
+      },
+      sheets: table.sheets,
+    };
+  }
+
+  const { text, encoding } = decodeCsvBytes(bytes);
+  if (text.trimStart().startsWith(">")) {
+    return null;
+  }
+  const csv = parseCsv(text);
+  return {
+    headers: csv.headers,
+    rows: csv.rows.slice(0, COLUMN_PREVIEW_ROWS),
+    detection: { encoding, delimiter: csv.delimiter, aliases: csv.aliases },
+    sheets: [],
+  };
+}
+
+function describeDetection(detection: CsvDetection) {
+  const aliases = Object.entries(detection.aliases).map(
+    ([canonical, header]) => `${header} → ${canonical}`
+  );
+  return [
+    ...(detection.sheet
+      ? [`엑셀 시트 ${detection.sheet}`]
+      : [
+          `인코딩 ${detection.encoding}`,
+          `구분자 ${DELIMITER_LABELS[detection.delimiter] ?? detection.delimiter}`,
+        ]),
+    ...(aliases.length ? [`헤더 별칭 ${aliases.join(", ")}`] : []),
+  ].join(" · ");
+}
+
+function fileKey(file: File | null) {
+  return file ? `${file.name}:${file.size}:${file.lastModified}` : "";
+}
+
+// Runs created before multi-indication submissions only carry indication_id.
+function runIndicationIds(run: {
+  indication_id: string | null;
+  indication_ids: string[] | null;
+}) {
+  if (run.indication_ids?.length) {
+    return run.indication_ids;
+  }
+  return run.indication_id ? [run.indication_id] : [];
+}
+
+function associationFor(run: RunRow, indicationId: string) {
+  const scores = run.association_scores;
+  if (scores && indicationId in scores) {
+    return scores[indicationId] ?? null;
+  }
+  return run.indication_id === indicationId ? run.association_score : null;
+}
+
+function collectIndicationIds(rows: Array<Parameters<typeof runIndicationIds>[0]>) {
+  return Array.from(new Set(rows.flatMap((row) => runIndicationIds(row))));
+}
+
+// Columns a realtime UPDATE may change on a listed run.
+const REALTIME_RUN_FIELDS = [
+  "status",
+  "warnings",
+  "affinity_value",
+  "affinity_prob",
+  "association_score",
+  "association_scores",
+] as const satisfies ReadonlyArray<keyof RunRow>;
+
+// Every column present in the payload wins, nulls included (a retry clears
+// the affinity); absent columns keep the listed value.
+function realtimeRunChanges(updated: Partial<RunRow>): Partial<RunRow> {
+  return Object.fromEntries(
+    REALTIME_RUN_FIELDS.filter((key) => key in updated).map((key) => [key, updated[key]])
+  );
+}
+
+const BATCH_LIST_SIZE = 10;
+const RUNS_POLL_INTERVAL_MS = 10000;
+const BATCH_REFRESH_DELAY_MS = 1000;
+const TOAST_DURATION_MS = 5000;
+const JOB_POLL_INTERVAL_MS = 1000;
+const JOB_POLL_MAX_ERRORS = 5;
+const INDICATION_SEARCH_DELAY_MS = 250;
+
 export default function AppPage() {
   const [memo, setMemo] = useState("");
-  const [indicationId, setIndicationId] = useState(DEFAULT_INDICATION_ID);
+  const [submitMode, setSubmitMode] = useState("cartesian");
+  const [pairsFileName, setPairsFileName] = useState<string | null>(null);
+  const [pairsFile, setPairsFile] = useState<File | null>(null);
+  const [indicationIds, setIndicationIds] = useState<string[]>([
+    DEFAULT_INDICATION_ID,
+  ]);
+  const [indicationQuery, setIndicationQuery] = useState("");
+  const [indicationOptions, setIndicationOptions] = useState<IndicationOption[]>(
+    []
+  );
+  const [showIndicationOptions, setShowIndicationOptions] = useState(false);
+  const [indicationLabels, setIndicationLabels] = useState<
+    Record<string, string>
+  >({});
   const [ligandFileName, setLigandFileName] = useState<string | null>(null);
   const [targetFileName, setTargetFileName] = useState<string | null>(null);
   const [ligandFile, setLigandFile] = useState<File | null>(null);
+  const [ligandNameField, setLigandNameField] = useState("");
   const [targetFile, setTargetFile] = useState<File | null>(null);
   const [runs, setRuns] = useState<RunRow[]>([]);
   const [runsError, setRunsError] = useState<string | null>(null);
+  const [batches, setBatches] = useState<BatchRow[]>([]);
+  const [batchProgress, setBatchProgress] = useState<
+    Record<string, BatchProgress>
+  >({});
+  const [batchesError, setBatchesError] = useState<string | null>(null);
+  const [batchFilter, setBatchFilter] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingRunAction | null>(
+    null
+  );
+  const [isRunningAction, setIsRunningAction] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
   const [isLoadingRuns, setIsLoadingRuns] = useState(false);
   const [isAuthed, setIsAuthed] = useState(false);
   const [userEmail, setUserEmail] = useState<string | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [toast, setToast] = useState<string | null>(null);
+  const [isRealtimeLive, setIsRealtimeLive] = useState(false);
+  const batchProgressRef = useRef<Record<string, BatchProgress>>({});
+  const loadRunsRef = useRef<() => Promise<void>>(async () => {});
+  const loadBatchesRef = useRef<() => Promise<void>>(async () => {});
+  const columnFileKeysRef = useRef<Partial<Record<ColumnFileKind, string>>>({});
   const [authChecked, setAuthChecked] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [submitSummary, setSubmitSummary] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitJob, setSubmitJob] = useState<SubmissionJob | null>(null);
+  const [preview, setPreview] = useState<SubmissionPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [columnPreviews, setColumnPreviews] = useState<
+    Partial<Record<ColumnFileKind, ColumnPreview>>
+  >({});
+  const [columnMapping, setColumnMapping] = useState<SubmissionColumnMapping>({});
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
   const [isLoggingOut, setIsLoggingOut] = useState(false);
   const router = useRouter();
@@ -57,6 +325,102 @@ export default function AppPage() {
     return createBrowserClient();
   }, []);
 
+  const rememberIndicationLabels = useCallback(
+    async (ids: Array<string | null>) => {
+      if (!supabase) {
+        return;
+      }
+      try {
+        const labels = await fetchIndicationLabels(
+          supabase,
+          ids.filter((id): id is string => Boolean(id))
+        );
+        if (labels.size > 0) {
+          setIndicationLabels((prev) => ({
+            ...prev,
+            ...Object.fromEntries(labels),
+          }));
+        }
+      } catch (error) {
+        console.error("indications.labels.failed", error);
+      }
+    },
+    [supabase]
+  );
+
+  const loadBatches = useCallback(async () => {
+    if (!supabase) {
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("batches")
+      .select(
+        "id,created_at,mode,memo,indication_id,indication_ids,ligand_file_name,target_file_name,pairs_file_name,pair_count"
+      )
+      .order("created_at", { ascending: false })
+      .limit(BATCH_LIST_SIZE);
+
+    if (error) {
+      setBatchesError(error.message);
+      setBatches([]);
+      return;
+    }
+
+    const rows = data ?? [];
+    setBatchesError(null);
+    setBatches(rows);
+    await rememberIndicationLabels(collectIndicationIds(rows));
+
+    if (rows.length === 0) {
+      setBatchProgress({});
+      return;
+    }
+
+    const { data: progressData, error: progressError } = await supabase
+      .from("batch_progress")
+      .select("batch_id,total,queued,running,done,failed,cancelled")
+      .in(
+        "batch_id",
+        rows.map((row) => row.id)
+      );
+
+    if (progressError) {
+      setBatchesError(progressError.message);
+      return;
+    }
+
+    const nextProgress: Record<string, BatchProgress> = Object.fromEntries(
+      (progressData ?? []).map((row) => [row.batch_id, row as BatchProgress])
+    );
+
+    // A batch finishes when its last queued/running run settles between loads.
+    const finished = rows.filter((batch) => {
+      const before = batchProgressRef.current[batch.id];
+      const after = nextProgress[batch.id];
+      return (
+        before &&
+        after &&
+        before.queued + before.running > 0 &&
+        after.queued + after.running === 0
+      );
+    });
+
+    batchProgressRef.current = nextProgress;
+    setBatchProgress(nextProgress);
+
+    if (finished.length > 0) {
+      const batch = finished[0];
+      const progress = nextProgress[batch.id];
+      const label =
+        batch.pairs_file_name ?? batch.ligand_file_name ?? batch.memo ?? batch.id;
+      setToast(
+        `batch 완료: ${label} (done ${progress.done}, failed ${progress.failed})` +
+          (finished.length > 1 ? ` 외 ${finished.length - 1}건` : "")
+      );
+    }
+  }, [supabase, rememberIndicationLabels]);
+
   const loadRuns = useCallback(async () => {
     if (!supabase) {
       return;
@@ -69,6 +433,7 @@ export default function AppPage() {
     const session = sessionData.session;
     setIsAuthed(Boolean(session));
     setUserEmail(session?.user?.email ?? null);
+    setUserId(session?.user?.id ?? null);
 
     if (!session) {
       setRuns([]);
@@ -81,11 +446,13 @@ export default function AppPage() {
     let query = supabase
       .from("runs")
       .select(
-        "id,status,memo,created_at,warnings,affinity_value,affinity_prob,ligand_name,gene_name,indication_id,association_score",
+        "id,status,memo,created_at,warnings,affinity_value,affinity_prob,ligand_name,gene_name,indication_id,indication_ids,association_score,association_scores",
         {
           count: "exact",
         }
-      );
+      )
+      // Runs of a submission still being inserted are not shown yet.
+      .neq("status", "staged");
 
     const trimmedQuery = searchQuery.trim();
     if (trimmedQuery) {
@@ -95,6 +462,10 @@ export default function AppPage() {
       );
     }
 
+    if (batchFilter) {
+      query = query.eq("batch_id", batchFilter);
+    }
+
     switch (sortKey) {
       case "created_at_asc":
         query = query.order("created_at", { ascending: true });
@@ -145,11 +516,26 @@ export default function AppPage() {
     } else {
       setRuns(data ?? []);
       setTotalCount(count ?? 0);
+      await rememberIndicationLabels([
+        DEFAULT_INDICATION_ID,
+        ...collectIndicationIds(data ?? []),
+      ]);
     }
 
+    await loadBatches();
+
     setIsLoadingRuns(false);
     setAuthChecked(true);
-  }, [supabase, router, searchQuery, sortKey, pageIndex]);
+  }, [
+    supabase,
+    router,
+    searchQuery,
+    sortKey,
+    pageIndex,
+    batchFilter,
+    loadBatches,
+    rememberIndicationLabels,
+  ]);
 
   useEffect(() => {
     if (!supabase) {
@@ -172,49 +558,190 @@ export default function AppPage() {
     };
   }, [supabase, loadRuns]);
 
+  useEffect(() => {
+    loadRunsRef.current = loadRuns;
+    loadBatchesRef.current = loadBatches;
+  }, [loadRuns, loadBatches]);
+
+  useEffect(() => {
+    if (!supabase || !userId) {
+      return;
+    }
+
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let batchTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const startPolling = () => {
+      if (!pollTimer) {
+        pollTimer = setInterval(() => {
+          loadRunsRef.current();
+        }, RUNS_POLL_INTERVAL_MS);
+      }
+    };
+
+    const stopPolling = () => {
+      if (pollTimer) {
+        clearInterval(pollTimer);
+        pollTimer = null;
+      }
+    };
+
+    const channel = supabase
+      .channel(`runs:${userId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "runs",
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          const updated = payload.new as Partial<RunRow> & { id?: string };
+          if (!updated.id) {
+            return;
+          }
+          setRuns((prev) =>
+            prev.map((run) =>
+              run.id === updated.id
+                ? { ...run, ...realtimeRunChanges(updated) }
+                : run
+            )
+          );
+          // Workers update runs one by one; refresh batch progress once per burst.
+          if (batchTimer) {
+            clearTimeout(batchTimer);
+          }
+          batchTimer = setTimeout(() => {
+            loadBatchesRef.current();
+          }, BATCH_REFRESH_DELAY_MS);
+        }
+      )
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") {
+          stopPolling();
+          setIsRealtimeLive(true);
+        } else {
+          startPolling();
+          setIsRealtimeLive(false);
+        }
+      });
+
+    return () => {
+      stopPolling();
+      if (batchTimer) {
+        clearTimeout(batchTimer);
+      }
+      supabase.removeChannel(channel);
+    };
+  }, [supabase, userId]);
+
+  useEffect(() => {
+    if (!supabase || !showIndicationOptions) {
+      return;
+    }
+
+    let isActive = true;
+    const timer = setTimeout(async () => {
+      try {
+        const options = await searchIndications(supabase, indicationQuery);
+        if (isActive) {
+          setIndicationOptions(options);
+        }
+      } catch (error) {
+        console.error("indications.search.failed", error);
+      }
+    }, INDICATION_SEARCH_DELAY_MS);
+
+    return () => {
+      isActive = false;
+      clearTimeout(timer);
+    };
+  }, [supabase, indicationQuery, showIndicationOptions]);
+
+  useEffect(() => {
+    if (!toast) {
+      return;
+    }
+    const timer = setTimeout(() => setToast(null), TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [toast]);
+
   useEffect(() => {
     if (!isSupabaseConfigured) {
       setAuthChecked(true);
     }
   }, []);
 
-  const handleSubmit = async () => {
+  const previewKey = [
+    submitMode,
+    fileKey(ligandFile),
+    fileKey(targetFile),
+    fileKey(pairsFile),
+    ligandNameField.trim(),
+    columnPreviews.ligand?.detection.sheet ?? "",
+    columnPreviews.target?.detection.sheet ?? "",
+    indicationIds.join(","),
+    JSON.stringify(columnMapping),
+  ].join("|");
+  const currentPreview = preview?.key === previewKey ? preview : null;
+
+  // Shared by the preview and the real submission; reports errors through
+  // submitError and returns null.
+  const sendSubmission = async (path: string) => {
     if (!supabase) {
       setSubmitError("Supabase 설정이 필요합니다.");
-      return;
+      return null;
     }
 
-    if (!ligandFile || !targetFile) {
-      setSubmitError("리간드/타겟 CSV 파일이 필요합니다.");
-      return;
+    if (submitMode === "paired" && !pairsFile) {
+      setSubmitError("pairs CSV 파일이 필요합니다.");
+      return null;
     }
 
-    if (!indicationId) {
-      setSubmitError("Indication ?좏깮??꾩슂?⑸땲??");
-      return;
+    if (submitMode !== "paired" && (!ligandFile || !targetFile)) {
+      setSubmitError("리간드/타겟 파일이 필요합니다.");
+      return null;
+    }
+
+    if (indicationIds.length === 0) {
+      setSubmitError("Indication 선택이 필요합니다.");
+      return null;
     }
 
     setSubmitError(null);
-    setSubmitSummary(null);
-    setIsSubmitting(true);
 
     const { data: sessionData } = await supabase.auth.getSession();
     const session = sessionData.session;
 
     if (!session) {
       setSubmitError("로그인이 필요합니다.");
-      setIsSubmitting(false);
-      return;
+      return null;
     }
 
     const formData = new FormData();
-    formData.append("indication_id", indicationId);
-    formData.append("ligand_csv", ligandFile);
-    formData.append("target_csv", targetFile);
+    indicationIds.forEach((id) => formData.append("indication_ids", id));
+    formData.append("mode", submitMode);
+    if (submitMode === "paired" && pairsFile) {
+      formData.append("pairs_csv", pairsFile);
+    } else if (ligandFile && targetFile) {
+      formData.append("ligand_csv", ligandFile);
+      if (isSdfFileName(ligandFile.name) && ligandNameField.trim()) {
+        formData.append("ligand_name_field", ligandNameField.trim());
+      }
+      formData.append("target_csv", targetFile);
+      (["ligand", "target"] as const).forEach((kind) => {
+        const sheet = columnPreviews[kind]?.detection.sheet;
+        if (sheet) {
+          formData.append(`${kind}_sheet`, sheet);
+        }
+      });
+    }
     formData.append("memo", memo);
+    formData.append("column_mapping", JSON.stringify(columnMapping));
 
     try {
-      const response = await fetch("/api/runs", {
+      const response = await fetch(path, {
         method: "POST",
         headers: {
           Authorization: `Bearer ${session.access_token}`,
@@ -226,17 +753,269 @@ export default function AppPage() {
 
       if (!response.ok) {
         setSubmitError(payload.error ?? "요청에 실패했습니다.");
-      } else if (payload.summary) {
-        const { total, queued, done, failed } = payload.summary;
-        setSubmitSummary(
-          `총 ${total}건 생성 (queued ${queued}, done ${done}, failed ${failed})`
-        );
-        await loadRuns();
+        return null;
       }
+      return payload;
     } catch (err) {
       setSubmitError(err instanceof Error ? err.message : "요청에 실패했습니다.");
+      return null;
+    }
+  };
+
+  // SDF and FASTA files have no columns to map.
+  const handleColumnFile = (
+    kind: ColumnFileKind,
+    file: File | null,
+    sheet = ""
+  ) => {
+    const key = `${fileKey(file)}|${sheet}`;
+    columnFileKeysRef.current[kind] = key;
+
+    const clear = () => {
+      setColumnPreviews((prev) => ({ ...prev, [kind]: undefined }));
+      setColumnMapping((prev) => ({ ...prev, [kind]: undefined }));
+    };
+
+    if (!file || isSdfFileName(file.name) || isFastaFileName(file.name)) {
+      clear();
+      return;
+    }
+
+    readColumnPreview(file, sheet)
+      .then((columnPreview) => {
+        // A newer file or sheet may have been chosen while this one was read.
+        if (columnFileKeysRef.current[kind] !== key) {
+          return;
+        }
+        if (!columnPreview) {
+          clear();
+          return;
+        }
+        setColumnPreviews((prev) => ({ ...prev, [kind]: columnPreview }));
+        setColumnMapping((prev) => ({
+          ...prev,
+          [kind]: guessColumnMapping(kind, columnPreview.headers),
+        }));
+      })
+      .catch(() => clear());
+  };
+
+  const handleColumnRoleChange = (
+    kind: ColumnFileKind,
+    header: string,
+    role: string
+  ) => {
+    setColumnMapping((prev) => {
+      const next: ColumnMapping = {};
+      Object.entries(prev[kind] ?? {}).forEach(([mappedRole, mappedHeader]) => {
+        if (mappedHeader !== header && mappedRole !== role) {
+          next[mappedRole] = mappedHeader;
+        }
+      });
+      if (role) {
+        next[role] = header;
+      }
+      return { ...prev, [kind]: next };
+    });
+  };
+
+  const renderColumnPreview = (kind: ColumnFileKind, file: File | null) => {
+    const columnPreview = columnPreviews[kind];
+    if (!columnPreview) {
+      return null;
+    }
+    const mapping = columnMapping[kind] ?? {};
+    const roleFor = (header: string) =>
+      Object.keys(mapping).find((role) => mapping[role] === header) ?? "";
+
+    return (
+      <>
+        {columnPreview.sheets.length > 1 && (
+          <label className={styles.label}>
+            시트
+            <select
+              className={styles.selectInput}
+              value={columnPreview.detection.sheet ?? ""}
+              onChange={(event) => handleColumnFile(kind, file, event.target.value)}
+            >
+              {columnPreview.sheets.map((sheet) => (
+                <option key={sheet} value={sheet}>
+                  {sheet}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <p className={styles.hint}>{describeDetection(columnPreview.detection)}</p>
+        <div className={styles.previewTable}>
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                {columnPreview.headers.map((header, index) => (
+                  <th key={`${index}:${header}`}>
+                    <div className={styles.columnHeader}>
+                      <span className={styles.mono}>{header || "-"}</span>
+                      <select
+                        className={styles.selectInput}
+                        value={roleFor(header)}
+                        onChange={(event) =>
+                          handleColumnRoleChange(kind, header, event.target.value)
+                        }
+                      >
+                        <option value="">사용 안 함</option>
+                        {COLUMN_ROLES[kind].map((entry) => (
+                          <option key={entry.role} value={entry.role}>
+                            {entry.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {columnPreview.rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {columnPreview.headers.map((header, index) => (
+                    <td key={`${index}:${header}`} className={styles.mono}>
+                      {row[index] ?? ""}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </>
+    );
+  };
+
+  // Polls GET /api/jobs/[id] until the job finishes; transient errors are
+  // retried a few times before giving up.
+  const waitForSubmissionJob = async <Result,>(jobId: string) => {
+    let errors = 0;
+    while (supabase && errors < JOB_POLL_MAX_ERRORS) {
+      await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+      const { data: sessionData } = await supabase.auth.getSession();
+      const session = sessionData.session;
+      if (!session) {
+        setSubmitError("로그인이 필요합니다.");
+        return null;
+      }
+
+      try {
+        const response = await fetch(`/api/jobs/${jobId}`, {
+          headers: { Authorization: `Bearer ${session.access_token}` },
+        });
+        const payload = await response.json();
+        if (!response.ok) {
+          errors += 1;
+          continue;
+        }
+        errors = 0;
+        setSubmitJob(payload);
+        if (payload.status !== "running") {
+          return payload as SubmissionJob<Result>;
+        }
+      } catch {
+        errors += 1;
+      }
+    }
+
+    setSubmitError("작업 상태를 확인하지 못했습니다. 잠시 후 목록을 확인하세요.");
+    return null;
+  };
+
+  const handlePreview = async () => {
+    const key = previewKey;
+    setSubmitSummary(null);
+    setSubmitJob(null);
+    setIsPreviewing(true);
+    const payload = await sendSubmission("/api/runs/preview");
+    const job = payload?.job_id
+      ? await waitForSubmissionJob<SubmissionPreviewResult>(payload.job_id)
+      : null;
+    if (job?.status === "failed") {
+      setSubmitError(job.error ?? "검증에 실패했습니다.");
+    } else if (job?.result) {
+      setSubmitJob(null);
+      setPreview({ ...job.result, key });
+    }
+    setIsPreviewing(false);
+  };
+
+  const handleSubmit = async () => {
+    setSubmitSummary(null);
+    setSubmitJob(null);
+    setIsSubmitting(true);
+    const payload = await sendSubmission("/api/runs");
+    const job = payload?.job_id
+      ? await waitForSubmissionJob<SubmissionResult>(payload.job_id)
+      : null;
+    if (job?.status === "failed") {
+      setSubmitError(job.error ?? "제출 처리에 실패했습니다.");
+    } else if (job?.result) {
+      const { total, queued, done, failed } = job.result.summary;
+      setSubmitSummary(
+        `${job.result.mode ?? submitMode} · ${job.result.pairs ?? total} pairs → 총 ${total}건 생성 (queued ${queued}, done ${done}, failed ${failed})`
+      );
+      setSubmitJob(null);
+      setPreview(null);
+      await loadRuns();
+    }
+    setIsSubmitting(false);
+  };
+
+  const handleRunAction = async (action: RunAction, target: RunActionTarget) => {
+    if (!supabase) {
+      return;
+    }
+
+    setActionError(null);
+    setIsRunningAction(true);
+
+    const { data: sessionData } = await supabase.auth.getSession();
+    const session = sessionData.session;
+
+    if (!session) {
+      setActionError("로그인이 필요합니다.");
+      setIsRunningAction(false);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/runs/${action}`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(target),
+      });
+
+      const payload = await response.json();
+
+      if (!response.ok) {
+        setActionError(payload.error ?? "요청에 실패했습니다.");
+      } else {
+        if (action === "cancel") {
+          setToast(`${payload.cancelled ?? 0}건 취소되었습니다.`);
+        } else if (action === "delete") {
+          setToast(`${payload.deleted ?? 0}건 삭제되었습니다.`);
+        } else if (payload.summary) {
+          const { total, queued, done, failed } = payload.summary;
+          setToast(
+            `${total}건 재시도 (queued ${queued}, done ${done}, failed ${failed})`
+          );
+        }
+        await loadRuns();
+      }
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : "요청에 실패했습니다.");
     } finally {
-      setIsSubmitting(false);
+      setIsRunningAction(false);
+      setPendingAction(null);
     }
   };
 
@@ -277,11 +1056,43 @@ export default function AppPage() {
     return trimmed ? trimmed : "-";
   };
 
+  const formatBatchFiles = (batch: BatchRow) => {
+    if (batch.mode === "paired") {
+      return formatName(batch.pairs_file_name);
+    }
+    return `${formatName(batch.ligand_file_name)} × ${formatName(batch.target_file_name)}`;
+  };
+
+  const progressClass = {
+    done: styles.progressDone,
+    running: styles.progressRunning,
+    queued: styles.progressQueued,
+    failed: styles.progressFailed,
+    cancelled: styles.progressCancelled,
+  };
+
+  const progressPercent = (count: number, total: number) =>
+    total > 0 ? `${(count / total) * 100}%` : "0%";
+
   const formatIndication = (value: string | null) => {
     if (!value) {
       return "-";
     }
-    return getIndicationLabel(value);
+    return indicationLabels[value] ?? value;
+  };
+
+  const formatIndications = (ids: string[]) =>
+    ids.length ? ids.map((id) => formatIndication(id)).join(", ") : "-";
+
+  const handleSelectIndication = (option: IndicationOption) => {
+    setIndicationIds((prev) =>
+      prev.includes(option.id) || prev.length >= MAX_INDICATIONS
+        ? prev
+        : [...prev, option.id]
+    );
+    setIndicationLabels((prev) => ({ ...prev, [option.id]: option.label }));
+    setIndicationQuery("");
+    setShowIndicationOptions(false);
   };
 
   const handleDownloadCsv = async () => {
@@ -298,8 +1109,9 @@ export default function AppPage() {
       let query = supabase
         .from("runs")
         .select(
-          "id,status,memo,created_at,warnings,affinity_value,affinity_prob,ligand_name,gene_name,indication_id,association_score"
-        );
+          "id,status,memo,created_at,warnings,affinity_value,affinity_prob,ligand_name,gene_name,indication_id,indication_ids,association_score,association_scores"
+        )
+        .neq("status", "staged");
 
       if (trimmedQuery) {
         const escaped = trimmedQuery.replace(/%/g, "\\%").replace(/,/g, "\\,");
@@ -308,6 +1120,10 @@ export default function AppPage() {
         );
       }
 
+      if (batchFilter) {
+        query = query.eq("batch_id", batchFilter);
+      }
+
       switch (sortKey) {
         case "created_at_asc":
           query = query.order("created_at", { ascending: true });
@@ -366,6 +1182,22 @@ export default function AppPage() {
       return;
     }
 
+    const exportLabels = { ...indicationLabels };
+    try {
+      const labels = await fetchIndicationLabels(
+        supabase,
+        collectIndicationIds(allRuns).filter((id) => !exportLabels[id])
+      );
+      labels.forEach((label, id) => {
+        exportLabels[id] = label;
+      });
+    } catch (error) {
+      console.error("indications.labels.failed", error);
+    }
+
+    const exportIndicationIds = collectIndicationIds(allRuns);
+    const exportLabel = (id: string) => exportLabels[id] ?? id;
+
     const headers = [
       "Status",
       "Ligand",
@@ -374,18 +1206,24 @@ export default function AppPage() {
       "Memo",
       "Affinity Value",
       "Affinity Prob",
-      "Association",
+      ...exportIndicationIds.map(
+        (id) => `Association (${exportLabel(id)}, ${id})`
+      ),
     ];
 
     const rows = allRuns.map((run) => [
       run.status ?? "-",
       formatName(run.ligand_name),
       formatName(run.gene_name),
-      formatIndication(run.indication_id),
+      runIndicationIds(run).map(exportLabel).join(", ") || "-",
       run.memo ?? "-",
       formatAffinityValue(run.affinity_value),
       formatAffinityProb(run.affinity_prob),
-      formatAssociationScore(run.association_score),
+      ...exportIndicationIds.map((id) =>
+        runIndicationIds(run).includes(id)
+          ? formatAssociationScore(associationFor(run, id))
+          : "-"
+      ),
     ]);
 
     const csvText = stringifyCsv(headers, rows);
@@ -405,6 +1243,8 @@ export default function AppPage() {
   };
 
 
+  const associationColumns = useMemo(() => collectIndicationIds(runs), [runs]);
+
   const totalPages = useMemo(() => {
     return Math.max(1, Math.ceil(totalCount / pageSize));
   }, [totalCount, pageSize]);
@@ -508,51 +1348,150 @@ export default function AppPage() {
 
       <section className={styles.panel}>
         <form className={styles.form}>
+          <div className={styles.label}>
+            <label htmlFor="indication-search">Indication</label>
+            <div className={styles.chipList}>
+              {indicationIds.map((id) => (
+                <span key={id} className={styles.chip}>
+                  {formatIndication(id)}
+                  <span className={styles.mono}>{id}</span>
+                  <button
+                    className={styles.chipRemove}
+                    type="button"
+                    aria-label={`${formatIndication(id)} 제거`}
+                    onClick={() =>
+                      setIndicationIds((prev) => prev.filter((value) => value !== id))
+                    }
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+              {indicationIds.length === 0 && (
+                <span className={styles.fileName}>선택된 indication이 없습니다.</span>
+              )}
+            </div>
+            <div className={styles.autocomplete}>
+              <input
+                id="indication-search"
+                className={styles.textInput}
+                type="search"
+                autoComplete="off"
+                value={indicationQuery}
+                placeholder="질환명 또는 EFO/MONDO ID 검색"
+                onChange={(event) => {
+                  setIndicationQuery(event.target.value);
+                  setShowIndicationOptions(true);
+                }}
+                onFocus={() => setShowIndicationOptions(true)}
+                onBlur={() => setShowIndicationOptions(false)}
+              />
+              {showIndicationOptions && indicationOptions.length > 0 && (
+                <ul className={styles.autocompleteList} role="listbox">
+                  {indicationOptions.map((option) => (
+                    <li key={option.id} role="option" aria-selected={indicationIds.includes(option.id)}>
+                      <button
+                        className={styles.autocompleteOption}
+                        type="button"
+                        // mousedown fires before the input's blur closes the list.
+                        onMouseDown={(event) => {
+                          event.preventDefault();
+                          handleSelectIndication(option);
+                        }}
+                      >
+                        <span>{option.label}</span>
+                        <span className={styles.mono}>{option.id}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
           <label className={styles.label}>
-            Indication
+            제출 방식
             <select
               className={styles.selectInput}
-              value={indicationId}
-              onChange={(event) => setIndicationId(event.target.value)}
+              value={submitMode}
+              onChange={(event) => setSubmitMode(event.target.value)}
             >
-              {INDICATIONS.map((option) => (
-                <option key={option.id} value={option.id}>
-                  {option.label}
-                </option>
-              ))}
+              <option value="cartesian">리간드 × 타겟 모든 조합</option>
+              <option value="paired">pair 목록 (CSV 1개)</option>
             </select>
           </label>
-          <label className={styles.label}>
-            리간드 CSV (smiles)
-            <input
-              className={styles.fileInput}
-              type="file"
-              accept=".csv"
-              onChange={(event) => {
-                const file = event.target.files?.[0] ?? null;
-                setLigandFile(file);
-                setLigandFileName(file?.name ?? null);
-              }}
-            />
-          </label>
 
-          {ligandFileName && <p className={styles.fileName}>{ligandFileName}</p>}
+          {submitMode === "paired" ? (
+            <>
+              <label className={styles.label}>
+                pairs CSV (smiles, sequence)
+                <input
+                  className={styles.fileInput}
+                  type="file"
+                  accept=".csv"
+                  onChange={(event) => {
+                    const file = event.target.files?.[0] ?? null;
+                    setPairsFile(file);
+                    setPairsFileName(file?.name ?? null);
+                    handleColumnFile("pairs", file);
+                  }}
+                />
+              </label>
+
+              {pairsFileName && <p className={styles.fileName}>{pairsFileName}</p>}
+              {renderColumnPreview("pairs", pairsFile)}
+            </>
+          ) : (
+            <>
+              <label className={styles.label}>
+                리간드 CSV/SDF/XLSX (smiles)
+                <input
+                  className={styles.fileInput}
+                  type="file"
+                  accept=".csv,.sdf,.xlsx"
+                  onChange={(event) => {
+                    const file = event.target.files?.[0] ?? null;
+                    setLigandFile(file);
+                    setLigandFileName(file?.name ?? null);
+                    handleColumnFile("ligand", file);
+                  }}
+                />
+              </label>
+
+              {ligandFileName && <p className={styles.fileName}>{ligandFileName}</p>}
+              {renderColumnPreview("ligand", ligandFile)}
+
+              {ligandFileName && isSdfFileName(ligandFileName) && (
+                <label className={styles.label}>
+                  SDF 이름 필드
+                  <input
+                    className={styles.textInput}
+                    type="text"
+                    value={ligandNameField}
+                    onChange={(event) => setLigandNameField(event.target.value)}
+                    placeholder="비워두면 _Name 줄 사용"
+                  />
+                </label>
+              )}
 
-          <label className={styles.label}>
-            타겟 CSV (sequence)
-            <input
-              className={styles.fileInput}
-              type="file"
-              accept=".csv"
-              onChange={(event) => {
-                const file = event.target.files?.[0] ?? null;
-                setTargetFile(file);
-                setTargetFileName(file?.name ?? null);
-              }}
-            />
-          </label>
+              <label className={styles.label}>
+                타겟 CSV/FASTA/XLSX (sequence)
+                <input
+                  className={styles.fileInput}
+                  type="file"
+                  accept=".csv,.fasta,.fa,.xlsx"
+                  onChange={(event) => {
+                    const file = event.target.files?.[0] ?? null;
+                    setTargetFile(file);
+                    setTargetFileName(file?.name ?? null);
+                    handleColumnFile("target", file);
+                  }}
+                />
+              </label>
 
-          {targetFileName && <p className={styles.fileName}>{targetFileName}</p>}
+              {targetFileName && <p className={styles.fileName}>{targetFileName}</p>}
+              {renderColumnPreview("target", targetFile)}
+            </>
+          )}
 
           <label className={styles.label}>
             Memo
@@ -565,28 +1504,305 @@ export default function AppPage() {
             />
           </label>
 
-          <button
-            className={styles.runButton}
-            type="button"
-            onClick={handleSubmit}
-            disabled={isSubmitting}
-          >
-            {isSubmitting ? "처리 중..." : "실행"}
-          </button>
+          {!currentPreview && (
+            <button
+              className={styles.runButton}
+              type="button"
+              onClick={handlePreview}
+              disabled={isPreviewing}
+            >
+              {isPreviewing ? "검증 중..." : "검증"}
+            </button>
+          )}
+
+          {currentPreview && (
+            <div className={styles.preview}>
+              <p className={styles.summary}>
+                {currentPreview.mode} · {currentPreview.pairs} pairs → queued{" "}
+                {currentPreview.summary.queued}, 이전 결과 재사용 {currentPreview.cached},
+                failed {currentPreview.summary.failed}
+              </p>
+
+              {Object.keys(currentPreview.warning_counts).length > 0 && (
+                <ul className={styles.warningList}>
+                  {Object.entries(currentPreview.warning_counts).map(([code, count]) => (
+                    <li key={code}>
+                      <span className={styles.mono}>
+                        {code} · {count}건
+                      </span>
+                      <span className={styles.detailMeta}>{describeWarning(code)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {currentPreview.genes.length > 0 && (
+                <div className={styles.previewTable}>
+                  <table className={styles.table}>
+                    <thead>
+                      <tr>
+                        <th>Gene</th>
+                        <th>UniProt</th>
+                        <th>Ensembl</th>
+                        <th>Warnings</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {currentPreview.genes.map((gene) => (
+                        <tr key={gene.name}>
+                          <td className={styles.mono}>{gene.name}</td>
+                          <td className={styles.mono}>{gene.uniprot_accession ?? "-"}</td>
+                          <td className={styles.mono}>
+                            {gene.target_ensembl_id ?? (gene.lookup_failed ? "조회 실패" : "-")}
+                          </td>
+                          <td className={styles.mono}>
+                            {gene.warnings.length ? gene.warnings.join(", ") : "-"}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
 
+              {currentPreview.rows.length > 0 && (
+                <div className={styles.previewTable}>
+                  <table className={styles.table}>
+                    <thead>
+                      <tr>
+                        <th>Row</th>
+                        <th>Ligand</th>
+                        <th>Gene</th>
+                        <th>Status</th>
+                        <th>Warnings</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {currentPreview.rows.map((row) => (
+                        <tr key={`${row.ligand_row}:${row.target_row}`}>
+                          <td className={styles.mono}>
+                            {submitMode === "paired"
+                              ? row.ligand_row
+                              : `L${row.ligand_row} × T${row.target_row}`}
+                          </td>
+                          <td className={styles.mono}>{row.ligand_name ?? "-"}</td>
+                          <td className={styles.mono}>{row.gene_name ?? "-"}</td>
+                          <td>
+                            <span
+                              className={`${styles.statusBadge} ${statusClass(row.status)}`}
+                            >
+                              {row.status}
+                            </span>
+                          </td>
+                          <td className={styles.mono}>{row.warnings.join(", ")}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              {currentPreview.rows_truncated && (
+                <p className={styles.hint}>경고가 있는 행은 앞의 일부만 표시합니다.</p>
+              )}
+
+              <div className={styles.rowActions}>
+                <button
+                  className={styles.runButton}
+                  type="button"
+                  onClick={handleSubmit}
+                  disabled={isSubmitting}
+                >
+                  {isSubmitting ? "처리 중..." : `확인 후 실행 (${currentPreview.pairs}건)`}
+                </button>
+                <button
+                  className={styles.pageButton}
+                  type="button"
+                  onClick={() => setPreview(null)}
+                  disabled={isSubmitting}
+                >
+                  취소
+                </button>
+              </div>
+            </div>
+          )}
+
+          {submitJob && (
+            <ol className={styles.jobStages}>
+              {submitJob.stages.map((stage, index) => {
+                const current = submitJob.stages.indexOf(submitJob.stage);
+                const state =
+                  submitJob.status === "done" || index < current
+                    ? "done"
+                    : index === current
+                      ? submitJob.status === "failed"
+                        ? "failed"
+                        : "active"
+                      : "pending";
+                return (
+                  <li key={stage} className={styles[`jobStage_${state}`]}>
+                    {JOB_STAGE_LABELS[stage] ?? stage}
+                    {index === current && submitJob.progress && (
+                      <span className={styles.mono}>
+                        {" "}
+                        {submitJob.progress.done}/{submitJob.progress.total}
+                      </span>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
           {submitSummary && <p className={styles.summary}>{submitSummary}</p>}
           {submitError && <p className={styles.error}>{submitError}</p>}
 
           <div className={styles.hint}>
-            <p>Indication: Leukemia (EFO_0000565)</p>
-            <p>리간드 CSV: `smiles` 필수, `name` 컬럼 optional</p>
-            <p>타겟 CSV: `sequence` 필수, `name` 컬럼 optional</p>
+            <p>
+              Indication: {formatIndications(indicationIds)} (최대 {MAX_INDICATIONS}개,
+              target × indication별 association 계산)
+            </p>
+            <p>
+              리간드 CSV: `smiles` 또는 식별자(`pubchem_cid`, `chembl_id`, `inchikey`,
+              `name`) 필수, SMILES가 빈 행은 식별자로 구조 조회
+            </p>
+            <p>리간드 SDF: V2000 레코드를 SMILES로 변환, 변환 실패 레코드는 failed 처리</p>
+            <p>
+              타겟 CSV: `sequence` 또는 UniProt accession(`uniprot` 컬럼 또는
+              `name`) 필수, 비어 있는 sequence는 UniProt에서 채움
+            </p>
+            <p>
+              타겟 FASTA: header의 gene symbol(UniProt GN=)을 `name`, sp|…| accession을
+              `uniprot`으로 사용
+            </p>
             <p>sequence 길이 제한: 1280</p>
-            <p>리간드 × 타겟 모든 조합으로 runs 생성</p>
+            <p>sequence는 공백 제거·대문자 변환 후 표준 아미노산 20종만 허용</p>
+            <p>
+              pairs CSV: `smiles`(또는 리간드 식별자), `sequence`(또는 `uniprot`) 필수,
+              `ligand_name`, `gene_name` optional
+            </p>
+            <p>CSV 컬럼 이름이 다르면 파일 선택 후 미리보기 표에서 역할을 지정</p>
+            <p>
+              CSV 구분자(쉼표·탭·세미콜론)와 인코딩(UTF-8, CP949/EUC-KR)은 자동 감지,
+              `canonical_smiles`, `seq` 같은 흔한 헤더 별칭도 인식
+            </p>
+            <p>리간드·타겟 XLSX: 선택한 시트(기본 첫 시트)의 첫 행을 헤더로 CSV와 같이 처리</p>
+            <p>
+              {submitMode === "paired"
+                ? "pairs CSV의 각 행마다 run 1건 생성"
+                : "리간드 × 타겟 모든 조합으로 runs 생성"}
+            </p>
           </div>
         </form>
       </section>
 
+      <section className={styles.panel}>
+        <div className={styles.panelHeader}>
+          <h2>Batches</h2>
+        </div>
+
+        {batchesError && <p className={styles.error}>{batchesError}</p>}
+
+        {!batchesError && batches.length === 0 && (
+          <p className={styles.empty}>표시할 batch가 없습니다.</p>
+        )}
+
+        {batches.length > 0 && (
+          <ul className={styles.batchList}>
+            {batches.map((batch) => {
+              const progress = batchProgress[batch.id];
+              const total = progress?.total ?? 0;
+              const isSelected = batchFilter === batch.id;
+              return (
+                <li
+                  key={batch.id}
+                  className={`${styles.batchItem} ${
+                    isSelected ? styles.batchItemSelected : ""
+                  }`}
+                >
+                  <div className={styles.batchHeader}>
+                    <div>
+                      <p className={styles.mono}>
+                        {formatLocalTime(batch.created_at)} · {batch.mode ?? "-"} ·{" "}
+                        {formatIndications(runIndicationIds(batch))}
+                      </p>
+                      <p className={styles.batchFiles}>{formatBatchFiles(batch)}</p>
+                      {batch.memo && <p className={styles.pageMeta}>{batch.memo}</p>}
+                    </div>
+                    <div className={styles.rowActions}>
+                      <button
+                        className={styles.pageButton}
+                        type="button"
+                        onClick={() => {
+                          setBatchFilter(isSelected ? null : batch.id);
+                          setPageIndex(0);
+                        }}
+                      >
+                        {isSelected ? "필터 해제" : "runs 보기"}
+                      </button>
+                      {(progress?.queued ?? 0) > 0 && (
+                        <button
+                          className={styles.pageButton}
+                          type="button"
+                          disabled={isRunningAction}
+                          onClick={() =>
+                            handleRunAction("cancel", { batch_id: batch.id })
+                          }
+                        >
+                          대기 취소
+                        </button>
+                      )}
+                      {(progress?.failed ?? 0) + (progress?.cancelled ?? 0) > 0 && (
+                        <button
+                          className={styles.pageButton}
+                          type="button"
+                          disabled={isRunningAction}
+                          onClick={() =>
+                            handleRunAction("retry", { batch_id: batch.id })
+                          }
+                        >
+                          실패 재시도
+                        </button>
+                      )}
+                      <button
+                        className={styles.pageButton}
+                        type="button"
+                        disabled={isRunningAction}
+                        onClick={() =>
+                          setPendingAction({
+                            action: "delete",
+                            target: { batch_id: batch.id },
+                            label: `이 batch의 runs ${total}건`,
+                          })
+                        }
+                      >
+                        삭제
+                      </button>
+                    </div>
+                  </div>
+                  <div className={styles.progressBar}>
+                    {(["done", "running", "queued", "failed", "cancelled"] as const).map(
+                      (status) => (
+                        <span
+                          key={status}
+                          className={`${styles.progressSegment} ${progressClass[status]}`}
+                          style={{
+                            width: progressPercent(progress?.[status] ?? 0, total),
+                          }}
+                        />
+                      )
+                    )}
+                  </div>
+                  <p className={styles.pageMeta}>
+                    {total} / {batch.pair_count ?? total} runs · done {progress?.done ?? 0} ·
+                    running {progress?.running ?? 0} · queued {progress?.queued ?? 0} ·
+                    failed {progress?.failed ?? 0} · cancelled {progress?.cancelled ?? 0}
+                  </p>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+
       <section className={styles.panel}>
         <div className={styles.panelHeader}>
           <h2>Runs 목록</h2>
@@ -631,11 +1847,27 @@ export default function AppPage() {
             >
               CSV 다운로드
             </button>
+            {batchFilter && (
+              <button
+                className={styles.clearButton}
+                type="button"
+                onClick={() => {
+                  setBatchFilter(null);
+                  setPageIndex(0);
+                }}
+              >
+                batch 필터 해제
+              </button>
+            )}
             {isLoadingRuns && <span className={styles.badge}>로딩 중</span>}
+            <span className={styles.badge}>
+              {isRealtimeLive ? "실시간" : "자동 새로고침"}
+            </span>
           </div>
         </div>
 
         {runsError && <p className={styles.error}>{runsError}</p>}
+        {actionError && <p className={styles.error}>{actionError}</p>}
 
         {!runsError && runs.length === 0 && (
           <p className={styles.empty}>표시할 runs가 없습니다.</p>
@@ -743,13 +1975,20 @@ export default function AppPage() {
                       </span>
                     </button>
                   </th>
-                  <th>Association</th>
+                  {associationColumns.map((id) => (
+                    <th key={id}>Assoc · {formatIndication(id)}</th>
+                  ))}
                   <th>Warnings</th>
+                  <th>Actions</th>
                 </tr>
               </thead>
               <tbody>
                 {runs.map((run) => (
-                  <tr key={run.id}>
+                  <tr
+                    key={run.id}
+                    className={styles.clickableRow}
+                    onClick={() => router.push(`/app/runs/${run.id}`)}
+                  >
                     <td>
                       <span className={`${styles.statusBadge} ${statusClass(run.status)}`}>
                         {run.status ?? "-"}
@@ -762,7 +2001,7 @@ export default function AppPage() {
                       {formatName(run.gene_name)}
                     </td>
                     <td className={styles.mono}>
-                      {formatIndication(run.indication_id)}
+                      {formatIndications(runIndicationIds(run))}
                     </td>
                     <td>{run.memo ?? "-"}</td>
                     <td className={styles.mono}>{userEmail ?? "-"}</td>
@@ -775,14 +2014,60 @@ export default function AppPage() {
                     <td className={styles.mono}>
                       {formatAffinityProb(run.affinity_prob)}
                     </td>
-                    <td className={styles.mono}>
-                      {formatAssociationScore(run.association_score)}
-                    </td>
+                    {associationColumns.map((id) => (
+                      <td key={id} className={styles.mono}>
+                        {runIndicationIds(run).includes(id)
+                          ? formatAssociationScore(associationFor(run, id))
+                          : "-"}
+                      </td>
+                    ))}
                     <td>
                       {Array.isArray(run.warnings)
                         ? run.warnings.join(", ")
                         : "-"}
                     </td>
+                    <td onClick={(event) => event.stopPropagation()}>
+                      <div className={styles.rowActions}>
+                        {run.status === "queued" && (
+                          <button
+                            className={styles.pageButton}
+                            type="button"
+                            disabled={isRunningAction}
+                            onClick={() =>
+                              handleRunAction("cancel", { run_ids: [run.id] })
+                            }
+                          >
+                            취소
+                          </button>
+                        )}
+                        {(run.status === "failed" || run.status === "cancelled") && (
+                          <button
+                            className={styles.pageButton}
+                            type="button"
+                            disabled={isRunningAction}
+                            onClick={() =>
+                              handleRunAction("retry", { run_ids: [run.id] })
+                            }
+                          >
+                            재시도
+                          </button>
+                        )}
+                        <button
+                          className={styles.pageButton}
+                          type="button"
+                          disabled={isRunningAction}
+                          onClick={() =>
+                            setPendingAction({
+                              action: "delete",
+                              target: { run_ids: [run.id] },
+                              label: `${formatName(run.ligand_name)} × ${formatName(run.gene_name)}`,
+                            })
+                          }
+                        >
+                          삭제
+                        </button>
+                      </div>
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -817,6 +2102,54 @@ export default function AppPage() {
         </div>
       </section>
 
+      {toast && (
+        <div className={styles.toast} role="status">
+          {toast}
+        </div>
+      )}
+
+      {pendingAction && (
+        <div
+          className={styles.modalOverlay}
+          onClick={() => {
+            if (!isRunningAction) {
+              setPendingAction(null);
+            }
+          }}
+        >
+          <div
+            className={styles.modal}
+            onClick={(event) => event.stopPropagation()}
+          >
+            <h3 className={styles.modalTitle}>삭제할까요?</h3>
+            <p className={styles.modalBody}>
+              {pendingAction.label}을(를) 삭제합니다. 삭제한 run은 되돌릴 수
+              없습니다.
+            </p>
+            <div className={styles.modalActions}>
+              <button
+                className={styles.modalCancel}
+                type="button"
+                onClick={() => setPendingAction(null)}
+                disabled={isRunningAction}
+              >
+                취소
+              </button>
+              <button
+                className={styles.modalConfirm}
+                type="button"
+                onClick={() =>
+                  handleRunAction(pendingAction.action, pendingAction.target)
+                }
+                disabled={isRunningAction}
+              >
+                {isRunningAction ? "삭제 중..." : "삭제"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {showLogoutConfirm && (
         <div
           className={styles.modalOverlay}
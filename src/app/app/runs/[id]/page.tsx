@@ -0,0 +1,517 @@
+"use client";
+
+import { Fragment, useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import styles from "../../app.module.css";
+import { createBrowserClient, isSupabaseConfigured } from "@/lib/supabase/browser";
+import { fetchIndicationLabels } from "@/lib/indications";
+import {
+  GENE_WARNINGS,
+  WARNING_ASSOCIATION_UNAVAILABLE,
+  WARNING_PREVIOUS_RESULT,
+  describeWarning,
+} from "@/lib/warnings";
+
+type RunDetail = {
+  id: string;
+  status: string | null;
+  memo: string | null;
+  created_at: string | null;
+  warnings: string[] | null;
+  smiles: string | null;
+  smiles_canon: string | null;
+  sequence: string | null;
+  ligand_name: string | null;
+  ligand_source: string | null;
+  ligand_identifier: string | null;
+  gene_name: string | null;
+  indication_id: string | null;
+  indication_ids: string[] | null;
+  target_ensembl_id: string | null;
+  uniprot_accession: string | null;
+  uniprot_entry_version: number | null;
+  uniprot_sequence_version: number | null;
+  association_score: number | null;
+  association_scores: Record<string, number | null> | null;
+  association_release: string | null;
+  affinity_value: number | null;
+  affinity_prob: number | null;
+  input_hash: string | null;
+  model_version: string | null;
+  worker_id: string | null;
+  error_message: string | null;
+};
+
+function indicationIdsOf(run: RunDetail) {
+  if (run.indication_ids?.length) {
+    return run.indication_ids;
+  }
+  return run.indication_id ? [run.indication_id] : [];
+}
+
+export default function RunDetailPage() {
+  const params = useParams<{ id: string }>();
+  const runId = params.id;
+  const router = useRouter();
+  const [run, setRun] = useState<RunDetail | null>(null);
+  const [sourceRunId, setSourceRunId] = useState<string | null>(null);
+  const [indicationLabels, setIndicationLabels] = useState<
+    Record<string, string>
+  >({});
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRemapOpen, setIsRemapOpen] = useState(false);
+  const [geneInput, setGeneInput] = useState("");
+  const [isRemapping, setIsRemapping] = useState(false);
+  const [remapError, setRemapError] = useState<string | null>(null);
+
+  const supabase = useMemo(() => {
+    if (!isSupabaseConfigured) {
+      return null;
+    }
+    return createBrowserClient();
+  }, []);
+
+  const fetchRun = useCallback(async () => {
+    if (!supabase) {
+      return null;
+    }
+
+    const { data: sessionData } = await supabase.auth.getSession();
+    if (!sessionData.session) {
+      router.replace("/login");
+      return null;
+    }
+
+    const { data, error: runError } = await supabase
+      .from("runs")
+      .select(
+        "id,status,memo,created_at,warnings,smiles,smiles_canon,sequence,ligand_name,ligand_source,ligand_identifier,gene_name,indication_id,indication_ids,target_ensembl_id,uniprot_accession,uniprot_entry_version,uniprot_sequence_version,association_score,association_scores,association_release,affinity_value,affinity_prob,input_hash,model_version,worker_id,error_message"
+      )
+      .eq("id", runId)
+      .maybeSingle();
+
+    if (runError || !data) {
+      return {
+        run: null,
+        sourceRunId: null,
+        indicationLabels: {},
+        error: runError?.message ?? "run을 찾을 수 없습니다.",
+      };
+    }
+
+    // The reused result comes from the earliest completed run with the same hash;
+    // every later reuse copies its values.
+    let source: { id: string } | null = null;
+    if (data.input_hash && data.warnings?.includes(WARNING_PREVIOUS_RESULT)) {
+      const { data: sourceData } = await supabase
+        .from("runs")
+        .select("id")
+        .eq("input_hash", data.input_hash)
+        .eq("status", "done")
+        .neq("id", data.id)
+        .order("created_at", { ascending: true })
+        .limit(1)
+        .maybeSingle();
+      source = sourceData;
+    }
+
+    const indicationLabels = await fetchIndicationLabels(
+      supabase,
+      indicationIdsOf(data as RunDetail)
+    ).catch(() => new Map<string, string>());
+
+    return {
+      run: data as RunDetail,
+      sourceRunId: source?.id ?? null,
+      indicationLabels: Object.fromEntries(indicationLabels),
+      error: null,
+    };
+  }, [supabase, router, runId]);
+
+  useEffect(() => {
+    if (!supabase) {
+      return;
+    }
+
+    let isActive = true;
+
+    const applyResult = (
+      result: Awaited<ReturnType<typeof fetchRun>>
+    ) => {
+      if (!isActive || !result) {
+        return;
+      }
+      setRun(result.run);
+      setSourceRunId(result.sourceRunId);
+      setIndicationLabels(result.indicationLabels);
+      setError(result.error);
+      setIsLoading(false);
+    };
+
+    fetchRun().then(applyResult);
+
+    const { data: subscription } = supabase.auth.onAuthStateChange(() => {
+      fetchRun().then(applyResult);
+    });
+
+    return () => {
+      isActive = false;
+      subscription.subscription.unsubscribe();
+    };
+  }, [supabase, fetchRun]);
+
+  const handleRemap = async () => {
+    if (!supabase || !run || !geneInput.trim()) {
+      return;
+    }
+
+    setRemapError(null);
+    setIsRemapping(true);
+
+    const { data: sessionData } = await supabase.auth.getSession();
+    const session = sessionData.session;
+
+    if (!session) {
+      setRemapError("로그인이 필요합니다.");
+      setIsRemapping(false);
+      return;
+    }
+
+    try {
+      const response = await fetch("/api/runs/remap", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ run_id: run.id, gene: geneInput.trim() }),
+      });
+
+      const payload = await response.json();
+
+      if (!response.ok) {
+        const reasons = Array.isArray(payload.warnings)
+          ? payload.warnings.map((code: string) => describeWarning(code)).join(" ")
+          : "";
+        setRemapError(
+          [payload.error ?? "요청에 실패했습니다.", reasons].filter(Boolean).join(" ")
+        );
+      } else {
+        const scores = payload.association_scores as Record<string, number | null>;
+        setRun((prev) =>
+          prev
+            ? {
+                ...prev,
+                target_ensembl_id: payload.target_ensembl_id,
+                association_scores: scores,
+                association_score:
+                  prev.indication_id && prev.indication_id in scores
+                    ? scores[prev.indication_id]
+                    : prev.association_score,
+                association_release: payload.association_release,
+                warnings: payload.warnings?.length ? payload.warnings : null,
+              }
+            : prev
+        );
+        setIsRemapOpen(false);
+        setGeneInput("");
+      }
+    } catch (err) {
+      setRemapError(err instanceof Error ? err.message : "요청에 실패했습니다.");
+    } finally {
+      setIsRemapping(false);
+    }
+  };
+
+  const formatNumber = (value: number | null) => {
+    if (value == null || Number.isNaN(value)) {
+      return "-";
+    }
+    return value.toFixed(4);
+  };
+
+  const formatAffinityProb = (value: number | null) => {
+    if (value == null || Number.isNaN(value)) {
+      return "-";
+    }
+    return `${(value * 100).toFixed(2)}%`;
+  };
+
+  const formatText = (value: string | null) => {
+    const trimmed = value?.trim();
+    return trimmed ? trimmed : "-";
+  };
+
+  const formatLocalTime = (value: string | null) => {
+    if (!value) {
+      return "-";
+    }
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      return "-";
+    }
+    return date.toLocaleString();
+  };
+
+  const statusClass = (status: string | null) => {
+    switch (status) {
+      case "queued":
+        return styles.statusQueued;
+      case "running":
+        return styles.statusRunning;
+      case "done":
+        return styles.statusDone;
+      case "failed":
+        return styles.statusFailed;
+      default:
+        return styles.statusNeutral;
+    }
+  };
+
+  if (!isSupabaseConfigured) {
+    return (
+      <div className={styles.page}>
+        <section className={styles.panel}>
+          <h1>Supabase 설정이 필요합니다.</h1>
+        </section>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.page}>
+      <header className={styles.header}>
+        <div>
+          <p className={styles.kicker}>Zenolink V2</p>
+          <h1>Run 상세</h1>
+          <p className={`${styles.subtitle} ${styles.mono}`}>{runId}</p>
+        </div>
+        <div className={styles.actions}>
+          <Link className={styles.refreshButton} href="/app">
+            목록으로
+          </Link>
+        </div>
+      </header>
+
+      <section className={styles.panel}>
+        {isLoading && <p className={styles.subtitle}>로딩 중...</p>}
+        {!isLoading && error && <p className={styles.error}>{error}</p>}
+
+        {!isLoading && run && (
+          <dl className={styles.detailGrid}>
+            <dt>Status</dt>
+            <dd>
+              <span className={`${styles.statusBadge} ${statusClass(run.status)}`}>
+                {run.status ?? "-"}
+              </span>
+            </dd>
+
+            <dt>Created</dt>
+            <dd className={styles.mono}>{formatLocalTime(run.created_at)}</dd>
+
+            <dt>Memo</dt>
+            <dd>{formatText(run.memo)}</dd>
+
+            <dt>Ligand</dt>
+            <dd className={styles.mono}>{formatText(run.ligand_name)}</dd>
+
+            <dt>Ligand Source</dt>
+            <dd className={styles.mono}>
+              {formatText(run.ligand_source)}
+              {run.ligand_identifier && (
+                <span className={styles.detailMeta}> ← {run.ligand_identifier}</span>
+              )}
+            </dd>
+
+            <dt>SMILES</dt>
+            <dd className={`${styles.mono} ${styles.breakAll}`}>
+              {formatText(run.smiles)}
+            </dd>
+
+            <dt>Canonical SMILES</dt>
+            <dd className={`${styles.mono} ${styles.breakAll}`}>
+              {formatText(run.smiles_canon)}
+            </dd>
+
+            <dt>Gene</dt>
+            <dd className={styles.mono}>{formatText(run.gene_name)}</dd>
+
+            <dt>UniProt</dt>
+            <dd className={styles.mono}>
+              {run.uniprot_accession ? (
+                <>
+                  {run.uniprot_accession}
+                  {run.uniprot_entry_version != null && (
+                    <span className={styles.detailMeta}>
+                      {" "}
+                      (entry v{run.uniprot_entry_version}, sequence v
+                      {run.uniprot_sequence_version ?? "-"})
+                    </span>
+                  )}
+                </>
+              ) : (
+                "-"
+              )}
+            </dd>
+
+            <dt>Target Ensembl ID</dt>
+            <dd>
+              <div className={styles.rowActions}>
+                <span className={styles.mono}>{formatText(run.target_ensembl_id)}</span>
+                {!isRemapOpen && (
+                  <button
+                    type="button"
+                    className={styles.pageButton}
+                    onClick={() => {
+                      setIsRemapOpen(true);
+                      setRemapError(null);
+                    }}
+                  >
+                    매핑 수정
+                  </button>
+                )}
+              </div>
+              {isRemapOpen && (
+                <div className={styles.rowActions}>
+                  <input
+                    className={styles.textInput}
+                    value={geneInput}
+                    onChange={(event) => setGeneInput(event.target.value)}
+                    placeholder="gene symbol 또는 ENSG ID"
+                    disabled={isRemapping}
+                    autoFocus
+                  />
+                  <button
+                    type="button"
+                    className={styles.pageButton}
+                    onClick={handleRemap}
+                    disabled={isRemapping || !geneInput.trim()}
+                  >
+                    {isRemapping ? "조회 중..." : "저장"}
+                  </button>
+                  <button
+                    type="button"
+                    className={styles.pageButton}
+                    onClick={() => setIsRemapOpen(false)}
+                    disabled={isRemapping}
+                  >
+                    닫기
+                  </button>
+                </div>
+              )}
+              {run.warnings?.some(
+                (code) =>
+                  GENE_WARNINGS.includes(code) || code === WARNING_ASSOCIATION_UNAVAILABLE
+              ) &&
+                !isRemapOpen && (
+                  <span className={styles.detailMeta}>
+                    매핑을 수정하면 association score를 다시 조회합니다.
+                  </span>
+                )}
+              {remapError && <p className={styles.error}>{remapError}</p>}
+            </dd>
+
+            <dt>Sequence</dt>
+            <dd className={`${styles.mono} ${styles.breakAll}`}>
+              {formatText(run.sequence)}
+              {run.sequence && (
+                <span className={styles.detailMeta}> ({run.sequence.length} aa)</span>
+              )}
+            </dd>
+
+            <dt>Indication</dt>
+            <dd className={styles.mono}>
+              {indicationIdsOf(run).length
+                ? indicationIdsOf(run)
+                    .map((id) => `${indicationLabels[id] ?? id} (${id})`)
+                    .join(", ")
+                : "-"}
+            </dd>
+
+            <dt>Affinity Value</dt>
+            <dd className={styles.mono}>{formatNumber(run.affinity_value)}</dd>
+
+            <dt>Affinity Prob</dt>
+            <dd className={styles.mono}>{formatAffinityProb(run.affinity_prob)}</dd>
+
+            {indicationIdsOf(run).length ? (
+              indicationIdsOf(run).map((id) => (
+                <Fragment key={id}>
+                  <dt>Association · {indicationLabels[id] ?? id}</dt>
+                  <dd className={styles.mono}>
+                    {formatNumber(
+                      run.association_scores && id in run.association_scores
+                        ? run.association_scores[id] ?? null
+                        : id === run.indication_id
+                          ? run.association_score
+                          : null
+                    )}
+                  </dd>
+                </Fragment>
+              ))
+            ) : (
+              <>
+                <dt>Association</dt>
+                <dd className={styles.mono}>-</dd>
+              </>
+            )}
+
+            <dt>OpenTargets Release</dt>
+            <dd className={styles.mono}>{formatText(run.association_release)}</dd>
+
+            <dt>Input Hash</dt>
+            <dd className={`${styles.mono} ${styles.breakAll}`}>
+              {formatText(run.input_hash)}
+            </dd>
+
+            <dt>Model Version</dt>
+            <dd className={styles.mono}>{formatText(run.model_version)}</dd>
+
+            <dt>Worker</dt>
+            <dd className={styles.mono}>{formatText(run.worker_id)}</dd>
+
+            {run.error_message && (
+              <>
+                <dt>Error</dt>
+                <dd className={`${styles.mono} ${styles.breakAll}`}>
+                  {run.error_message}
+                </dd>
+              </>
+            )}
+
+            <dt>Warnings</dt>
+            <dd>
+              {run.warnings?.length ? (
+                <ul className={styles.warningList}>
+                  {run.warnings.map((warning) => (
+                    <li key={warning}>
+                      <span className={styles.mono}>{warning}</span>
+                      <span className={styles.detailMeta}>
+                        {describeWarning(warning)}
+                      </span>
+                      {warning === WARNING_PREVIOUS_RESULT && (
+                        <span className={styles.detailMeta}>
+                          {sourceRunId ? (
+                            <Link href={`/app/runs/${sourceRunId}`}>
+                              원본 run 보기
+                            </Link>
+                          ) : (
+                            "원본 run에 접근할 수 없습니다."
+                          )}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                "-"
+              )}
+            </dd>
+          </dl>
+        )}
+      </section>
+    </div>
+  );
+}
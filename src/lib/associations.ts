@@ -0,0 +1,202 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getProviders } from "@/lib/providers";
+import { chunk } from "@/lib/runs";
+
+const DEFAULT_CACHE_TTL_HOURS = 24 * 7;
+const UNKNOWN_RELEASE = "unknown";
+
+export type AssociationLookup = {
+  release: string;
+  scores: Map<string, number | null>;
+  // Keys whose lookup failed; their null score means "unknown", not "none".
+  unavailable: Set<string>;
+};
+
+export function associationKey(indicationId: string, targetEnsemblId: string) {
+  return `${indicationId}|${targetEnsemblId}`;
+}
+
+export function cacheTtlMs() {
+  const hours = Number.parseFloat(process.env.ASSOCIATION_CACHE_TTL_HOURS ?? "");
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_CACHE_TTL_HOURS) *
+    60 * 60 * 1000;
+}
+
+async function readCache(
+  supabase: SupabaseClient,
+  indicationId: string,
+  targetEnsemblIds: string[],
+  release: string
+) {
+  const cached = new Map<string, number | null>();
+  const freshSince = new Date(Date.now() - cacheTtlMs()).toISOString();
+
+  for (const batch of chunk(targetEnsemblIds, 200)) {
+    const { data, error } = await supabase
+      .from("association_cache")
+      .select("target_ensembl_id, score")
+      .eq("indication_id", indicationId)
+      .eq("data_release", release)
+      .gte("fetched_at", freshSince)
+      .in("target_ensembl_id", batch);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    (data ?? []).forEach((row) => {
+      cached.set(row.target_ensembl_id, row.score ?? null);
+    });
+  }
+
+  return cached;
+}
+
+export async function writeCache(
+  supabase: SupabaseClient,
+  indicationId: string,
+  scores: Map<string, number | null>,
+  release: string
+) {
+  const fetchedAt = new Date().toISOString();
+  const rows = Array.from(scores, ([targetEnsemblId, score]) => ({
+    indication_id: indicationId,
+    target_ensembl_id: targetEnsemblId,
+    data_release: release,
+    score,
+    fetched_at: fetchedAt,
+  }));
+
+  for (const batch of chunk(rows, 500)) {
+    const { error } = await supabase
+      .from("association_cache")
+      .upsert(batch, {
+        onConflict: "indication_id,target_ensembl_id,data_release",
+      });
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+}
+
+// Resolves every indication × target score, serving fresh cache entries for
+// the current release and fetching the rest. Lookup failures degrade to null
+// scores, listed in `unavailable`, rather than failing the submission.
+export async function loadAssociationScores(
+  supabase: SupabaseClient,
+  indicationIds: string[],
+  targetEnsemblIds: string[]
+): Promise<AssociationLookup> {
+  const scores = new Map<string, number | null>();
+  const unavailable = new Set<string>();
+  if (indicationIds.length === 0 || targetEnsemblIds.length === 0) {
+    return { release: UNKNOWN_RELEASE, scores, unavailable };
+  }
+
+  let release = UNKNOWN_RELEASE;
+  try {
+    release = await getProviders().associations.fetchRelease();
+  } catch (error) {
+    console.error("opentargets.release.failed", error);
+  }
+
+  await Promise.all(
+    indicationIds.map(async (indicationId) => {
+      let cached = new Map<string, number | null>();
+      try {
+        cached = await readCache(supabase, indicationId, targetEnsemblIds, release);
+      } catch (error) {
+        console.error("association_cache.read.failed", error);
+      }
+
+      cached.forEach((score, targetEnsemblId) => {
+        scores.set(associationKey(indicationId, targetEnsemblId), score);
+      });
+
+      const missing = targetEnsemblIds.filter((id) => !cached.has(id));
+      if (missing.length === 0) {
+        return;
+      }
+
+      try {
+        const fetched = await getProviders().associations.fetchAssociationScores(
+          indicationId,
+          missing
+        );
+        missing.forEach((targetEnsemblId) => {
+          scores.set(
+            associationKey(indicationId, targetEnsemblId),
+            fetched.get(targetEnsemblId) ?? null
+          );
+        });
+        await writeCache(supabase, indicationId, fetched, release).catch((error) =>
+          console.error("association_cache.write.failed", error)
+        );
+      } catch (error) {
+        console.error("opentargets.association.failed", error);
+        missing.forEach((targetEnsemblId) => {
+          const key = associationKey(indicationId, targetEnsemblId);
+          scores.set(key, null);
+          unavailable.add(key);
+        });
+      }
+    })
+  );
+
+  return { release, scores, unavailable };
+}
+
+// Re-fetches cache entries that are past the TTL or from an older release.
+export async function refreshStaleAssociations(
+  supabase: SupabaseClient,
+  limit: number
+) {
+  const { associations } = getProviders();
+  const release = await associations.fetchRelease();
+  const staleBefore = new Date(Date.now() - cacheTtlMs()).toISOString();
+
+  const { data, error } = await supabase
+    .from("association_cache")
+    .select("indication_id, target_ensembl_id")
+    .or(`fetched_at.lt.${staleBefore},data_release.neq.${release}`)
+    .order("fetched_at", { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const targetsByIndication = new Map<string, Set<string>>();
+  (data ?? []).forEach((row) => {
+    const targets = targetsByIndication.get(row.indication_id) ?? new Set<string>();
+    targets.add(row.target_ensembl_id);
+    targetsByIndication.set(row.indication_id, targets);
+  });
+
+  let refreshed = 0;
+  for (const [indicationId, targets] of targetsByIndication) {
+    const targetIds = Array.from(targets);
+    const fetched = await associations.fetchAssociationScores(
+      indicationId,
+      targetIds
+    );
+    await writeCache(supabase, indicationId, fetched, release);
+    refreshed += fetched.size;
+
+    // The refreshed rows supersede entries from older releases; runs keep
+    // their own association_release, so nothing else points at those rows.
+    for (const batch of chunk(targetIds, 200)) {
+      const { error: pruneError } = await supabase
+        .from("association_cache")
+        .delete()
+        .eq("indication_id", indicationId)
+        .neq("data_release", release)
+        .in("target_ensembl_id", batch);
+      if (pruneError) {
+        console.error("association_cache.prune.failed", pruneError);
+      }
+    }
+  }
+
+  return { release, refreshed, indications: targetsByIndication.size };
+}
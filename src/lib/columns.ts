@@ -0,0 +1,163 @@
+import type { CsvResult } from "@/lib/csv";
+
+// Column roles each submission file understands. A role is the lowercase
+// header the server looks for, so an unmapped file with those headers keeps
+// working unchanged.
+export type ColumnFileKind = "ligand" | "target" | "pairs";
+
+// Role → original header, as chosen in the submit form.
+export type ColumnMapping = Record<string, string>;
+
+export type SubmissionColumnMapping = Partial<Record<ColumnFileKind, ColumnMapping>>;
+
+export type ColumnRole = {
+  role: string;
+  label: string;
+};
+
+const IDENTIFIER_ROLES: ColumnRole[] = [
+  { role: "pubchem_cid", label: "PubChem CID" },
+  { role: "chembl_id", label: "ChEMBL ID" },
+  { role: "inchikey", label: "InChIKey" },
+];
+
+export const COLUMN_ROLES: Record<ColumnFileKind, ColumnRole[]> = {
+  ligand: [
+    { role: "smiles", label: "SMILES" },
+    { role: "name", label: "Ligand name" },
+    ...IDENTIFIER_ROLES,
+  ],
+  target: [
+    { role: "sequence", label: "Sequence" },
+    { role: "name", label: "Gene name" },
+    { role: "uniprot", label: "UniProt" },
+  ],
+  pairs: [
+    { role: "smiles", label: "SMILES" },
+    { role: "sequence", label: "Sequence" },
+    { role: "ligand_name", label: "Ligand name" },
+    { role: "gene_name", label: "Gene name" },
+    { role: "uniprot", label: "UniProt" },
+    ...IDENTIFIER_ROLES,
+  ],
+};
+
+const COLUMN_FILE_KINDS = Object.keys(COLUMN_ROLES) as ColumnFileKind[];
+
+// Header patterns tried in order; the first role a header matches wins.
+const ROLE_PATTERNS: Array<[RegExp, Record<ColumnFileKind, string | null>]> = [
+  [/smiles/, { ligand: "smiles", target: null, pairs: "smiles" }],
+  [/^seq|sequence/, { ligand: null, target: "sequence", pairs: "sequence" }],
+  [/uniprot|accession/, { ligand: null, target: "uniprot", pairs: "uniprot" }],
+  [/inchi_?key/, { ligand: "inchikey", target: null, pairs: "inchikey" }],
+  [/chembl/, { ligand: "chembl_id", target: null, pairs: "chembl_id" }],
+  [/cid/, { ligand: "pubchem_cid", target: null, pairs: "pubchem_cid" }],
+  [/gene|symbol/, { ligand: null, target: "name", pairs: "gene_name" }],
+  [/name|compound|ligand|molecule/, { ligand: "name", target: "name", pairs: "ligand_name" }],
+];
+
+function normalizeHeader(header: string) {
+  return header.trim().toLowerCase().replace(/[\s-]+/g, "_");
+}
+
+function isRole(kind: ColumnFileKind, role: string) {
+  return COLUMN_ROLES[kind].some((entry) => entry.role === role);
+}
+
+// Suggests a mapping for the browser preview. Each role is given to the first
+// header that looks like it; exact role names are always kept.
+export function guessColumnMapping(
+  kind: ColumnFileKind,
+  headers: string[]
+): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const normalized = headers.map(normalizeHeader);
+
+  normalized.forEach((header, index) => {
+    if (isRole(kind, header) && !mapping[header]) {
+      mapping[header] = headers[index];
+    }
+  });
+
+  normalized.forEach((header, index) => {
+    if (Object.values(mapping).includes(headers[index])) {
+      return;
+    }
+    for (const [pattern, roles] of ROLE_PATTERNS) {
+      const role = roles[kind];
+      if (role && pattern.test(header)) {
+        if (!mapping[role]) {
+          mapping[role] = headers[index];
+        }
+        return;
+      }
+    }
+  });
+
+  return mapping;
+}
+
+// Renames mapped headers to their role. A mapping is sent for every file the
+// form previewed, so it is complete: a header that carries a role name but
+// was not chosen for any role was unmapped and is cleared, even when the
+// mapping is empty. Without a mapping headers are used as they are.
+export function applyColumnMapping<T extends CsvResult>(
+  kind: ColumnFileKind,
+  csv: T,
+  mapping: ColumnMapping | undefined
+): T {
+  if (!mapping) {
+    return csv;
+  }
+
+  const roleByHeader = new Map<string, string>();
+  Object.entries(mapping).forEach(([role, header]) => {
+    if (isRole(kind, role) && !roleByHeader.has(header)) {
+      roleByHeader.set(header, role);
+    }
+  });
+
+  const headers = csv.headers.map((header) => {
+    const role = roleByHeader.get(header);
+    if (role) {
+      return role;
+    }
+    return isRole(kind, header.toLowerCase()) ? "" : header;
+  });
+
+  return { ...csv, headers };
+}
+
+// Reads the `column_mapping` form field; anything malformed is dropped.
+export function parseColumnMapping(value: unknown): SubmissionColumnMapping {
+  if (typeof value !== "string" || !value.trim()) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return {};
+  }
+  if (!parsed || typeof parsed !== "object") {
+    return {};
+  }
+
+  const result: SubmissionColumnMapping = {};
+  COLUMN_FILE_KINDS.forEach((kind) => {
+    const entries = (parsed as Record<string, unknown>)[kind];
+    if (!entries || typeof entries !== "object") {
+      return;
+    }
+    const mapping: ColumnMapping = {};
+    Object.entries(entries as Record<string, unknown>).forEach(([role, header]) => {
+      if (isRole(kind, role) && typeof header === "string" && header) {
+        mapping[role] = header;
+      }
+    });
+    result[kind] = mapping;
+  });
+
+  return result;
+}
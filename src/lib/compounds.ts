@@ -0,0 +1,208 @@
+import {
+  getProviders,
+  type CompoundCandidate,
+  type CompoundIdentifierKind,
+} from "@/lib/providers";
+import { ligandFromSmiles, type LigandInput } from "@/lib/runs";
+import { canonicalizeSmiles } from "@/lib/smiles";
+import {
+  WARNING_LIGAND_IDENTIFIER_AMBIGUOUS,
+  WARNING_LIGAND_IDENTIFIER_UNAVAILABLE,
+  WARNING_LIGAND_IDENTIFIER_UNRESOLVED,
+} from "@/lib/warnings";
+
+export type CompoundIdentifier = {
+  kind: CompoundIdentifierKind;
+  value: string;
+};
+
+export type LigandRow = {
+  smiles: string;
+  ligandName: string;
+  // Only consulted when the row has no SMILES.
+  identifier: CompoundIdentifier | null;
+};
+
+type CompoundLookup = {
+  matches: Map<string, CompoundCandidate[]>;
+  lookupFailed: Set<string>;
+};
+
+// Checked in this order; a free-text name is the last resort.
+const IDENTIFIER_KINDS: CompoundIdentifierKind[] = [
+  "pubchem_cid",
+  "chembl_id",
+  "inchikey",
+  "name",
+];
+const INCHIKEY = /^[A-Z]{14}-[A-Z]{10}-[A-Z]$/;
+
+export function normalizeCompoundIdentifier(
+  kind: CompoundIdentifierKind,
+  raw: string
+) {
+  const trimmed = raw.trim();
+  switch (kind) {
+    case "pubchem_cid": {
+      const cid = trimmed.replace(/^cid[:\s]*/i, "");
+      return /^\d+$/.test(cid) ? String(Number(cid)) : null;
+    }
+    case "chembl_id": {
+      const upper = trimmed.toUpperCase();
+      return /^CHEMBL\d+$/.test(upper) ? upper : null;
+    }
+    case "inchikey": {
+      const upper = trimmed.replace(/^InChIKey=/i, "").toUpperCase();
+      return INCHIKEY.test(upper) ? upper : null;
+    }
+    case "name":
+      return trimmed ? trimmed.toLowerCase() : null;
+  }
+}
+
+// Stored on runs as `kind:value` so a retry can resolve it again.
+export function formatCompoundIdentifier(identifier: CompoundIdentifier) {
+  return `${identifier.kind}:${identifier.value}`;
+}
+
+export function parseCompoundIdentifier(text: string): CompoundIdentifier | null {
+  const separator = text.indexOf(":");
+  const kind = text.slice(0, separator) as CompoundIdentifierKind;
+  if (separator === -1 || !IDENTIFIER_KINDS.includes(kind)) {
+    return null;
+  }
+  const value = normalizeCompoundIdentifier(kind, text.slice(separator + 1));
+  return value ? { kind, value } : null;
+}
+
+// Index of every identifier column in a lowercased header; -1 when absent.
+// `nameColumn` is the file's ligand name column, used for name search.
+export function ligandIdentifierColumns(header: string[], nameColumn: string) {
+  return {
+    pubchem_cid: header.indexOf("pubchem_cid"),
+    chembl_id: header.indexOf("chembl_id"),
+    inchikey: header.indexOf("inchikey"),
+    name: header.indexOf(nameColumn),
+  } satisfies Record<CompoundIdentifierKind, number>;
+}
+
+export function hasLigandIdentifierColumn(
+  columns: ReturnType<typeof ligandIdentifierColumns>
+) {
+  return IDENTIFIER_KINDS.some((kind) => columns[kind] >= 0);
+}
+
+export function ligandIdentifierFromRow(
+  row: string[],
+  columns: ReturnType<typeof ligandIdentifierColumns>
+): CompoundIdentifier | null {
+  for (const kind of IDENTIFIER_KINDS) {
+    const index = columns[kind];
+    const value = index >= 0 ? normalizeCompoundIdentifier(kind, row[index] ?? "") : null;
+    if (value) {
+      return { kind, value };
+    }
+  }
+  return null;
+}
+
+async function lookupCompounds(identifiers: CompoundIdentifier[]) {
+  const lookup: CompoundLookup = { matches: new Map(), lookupFailed: new Set() };
+  const { compounds } = getProviders();
+
+  await Promise.all(
+    IDENTIFIER_KINDS.map(async (kind) => {
+      const values = Array.from(
+        new Set(identifiers.filter((id) => id.kind === kind).map((id) => id.value))
+      );
+      if (values.length === 0) {
+        return;
+      }
+      try {
+        const matches = await compounds.lookup(kind, values);
+        matches.forEach((candidates, value) => {
+          lookup.matches.set(formatCompoundIdentifier({ kind, value }), candidates);
+        });
+      } catch (error) {
+        console.error("compounds.lookup.failed", { kind, error });
+        values.forEach((value) =>
+          lookup.lookupFailed.add(formatCompoundIdentifier({ kind, value }))
+        );
+      }
+    })
+  );
+
+  return lookup;
+}
+
+function ligandFromIdentifier(
+  identifier: CompoundIdentifier,
+  ligandName: string,
+  lookup: CompoundLookup
+): LigandInput {
+  const key = formatCompoundIdentifier(identifier);
+  const unresolved = (warning: string): LigandInput => ({
+    smiles: "",
+    smilesCanon: null,
+    ligandName: ligandName.trim(),
+    structureError: null,
+    source: null,
+    identifier: key,
+    identifierWarning: warning,
+  });
+
+  if (lookup.lookupFailed.has(key)) {
+    return unresolved(WARNING_LIGAND_IDENTIFIER_UNAVAILABLE);
+  }
+
+  // Candidates that canonicalize to the same structure are one structure;
+  // ones we cannot parse are kept apart so they still count.
+  const byStructure = new Map<
+    string,
+    { candidate: CompoundCandidate; canonical: string | null }
+  >();
+  for (const candidate of lookup.matches.get(key) ?? []) {
+    const parsed = canonicalizeSmiles(candidate.smiles);
+    const canonical = parsed.ok ? parsed.canonical : null;
+    const structure = canonical ?? candidate.smiles;
+    if (!byStructure.has(structure)) {
+      byStructure.set(structure, { candidate, canonical });
+    }
+  }
+
+  if (byStructure.size === 0) {
+    return unresolved(WARNING_LIGAND_IDENTIFIER_UNRESOLVED);
+  }
+  if (byStructure.size > 1) {
+    return unresolved(WARNING_LIGAND_IDENTIFIER_AMBIGUOUS);
+  }
+
+  const [{ candidate, canonical }] = Array.from(byStructure.values());
+  return {
+    smiles: candidate.smiles,
+    smilesCanon: canonical,
+    ligandName: ligandName.trim(),
+    structureError: null,
+    source: candidate.source,
+    identifier: key,
+    identifierWarning: null,
+  };
+}
+
+// Rows with SMILES are used as-is; the rest are resolved through the
+// configured compound provider in one lookup per identifier kind.
+export async function ligandsFromRows(rows: LigandRow[]): Promise<LigandInput[]> {
+  const pending = rows
+    .filter((row) => !row.smiles.trim() && row.identifier)
+    .map((row) => row.identifier as CompoundIdentifier);
+  const lookup = pending.length
+    ? await lookupCompounds(pending)
+    : { matches: new Map(), lookupFailed: new Set<string>() };
+
+  return rows.map((row) => {
+    if (row.smiles.trim() || !row.identifier) {
+      return ligandFromSmiles(row.smiles, row.ligandName);
+    }
+    return ligandFromIdentifier(row.identifier, row.ligandName, lookup);
+  });
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { decodeCsvBytes, parseCsv, sniffDelimiter, stringifyCsv } from "@/lib/csv";
+
+describe("parseCsv", () => {
+  it("handles quotes, escaped quotes, embedded newlines and CRLF", () => {
+    const parsed = parseCsv(
+      "\uFEFFsmiles,name\r\n\"C(=O)O\",\"acetic \"\"acid\"\"\"\r\nCCO,\"two\nlines\"\r\n\r\n"
+    );
+
+    expect(parsed.headers).toEqual(["smiles", "name"]);
+    expect(parsed.rows).toEqual([
+      ["C(=O)O", "acetic \"acid\""],
+      ["CCO", "two\nlines"],
+    ]);
+    expect(parsed.delimiter).toBe(",");
+  });
+
+  it("sniffs tab and semicolon delimiters", () => {
+    expect(parseCsv("smiles\tname\nCCO\tethanol\n").rows).toEqual([["CCO", "ethanol"]]);
+    expect(parseCsv("smiles;name\nCCO;ethanol\n").delimiter).toBe(";");
+  });
+
+  it("ignores delimiters inside quotes when sniffing", () => {
+    expect(sniffDelimiter("name;smiles\n\"a,b\";CCO\n\"c,d\";CC\n")).toBe(";");
+    expect(sniffDelimiter("smiles\nCCO\n")).toBe(",");
+  });
+
+  it("renames the first alias of a header unless the canonical one exists", () => {
+    const aliased = parseCsv("Canonical SMILES,Protein Sequence,CID\nCCO,MKT,702\n");
+    expect(aliased.headers).toEqual(["smiles", "sequence", "pubchem_cid"]);
+    expect(aliased.aliases).toEqual({
+      smiles: "Canonical SMILES",
+      sequence: "Protein Sequence",
+      pubchem_cid: "CID",
+    });
+
+    const canonical = parseCsv("smiles,isomeric_smiles\nCCO,CCO\n");
+    expect(canonical.headers).toEqual(["smiles", "isomeric_smiles"]);
+    expect(canonical.aliases).toEqual({});
+  });
+
+  it("round-trips through stringifyCsv", () => {
+    const text = stringifyCsv(["name", "note"], [["a,b", "say \"hi\""], ["c", null]]);
+    expect(parseCsv(text).rows).toEqual([
+      ["a,b", "say \"hi\""],
+      ["c", ""],
+    ]);
+  });
+});
+
+describe("decodeCsvBytes", () => {
+  it("reads UTF-8 with and without a BOM", () => {
+    const bytes = new TextEncoder().encode("name\n가\n");
+    expect(decodeCsvBytes(bytes)).toEqual({ text: "name\n가\n", encoding: "utf-8" });
+    expect(decodeCsvBytes(new Uint8Array([0xef, 0xbb, 0xbf, ...bytes])).text).toBe(
+      "name\n가\n"
+    );
+  });
+
+  it("reads UTF-16 with a BOM", () => {
+    const bytes = new Uint8Array([0xff, 0xfe, 0x61, 0x00, 0x0a, 0x00]);
+    expect(decodeCsvBytes(bytes)).toEqual({ text: "a\n", encoding: "utf-16le" });
+  });
+
+  it("falls back to EUC-KR for Korean Excel exports", () => {
+    // "name\n가\n" in EUC-KR / CP949.
+    const bytes = new Uint8Array([0x6e, 0x61, 0x6d, 0x65, 0x0a, 0xb0, 0xa1, 0x0a]);
+    expect(decodeCsvBytes(bytes)).toEqual({ text: "name\n가\n", encoding: "euc-kr" });
+  });
+});
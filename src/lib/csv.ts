@@ -1,8 +1,59 @@
-type CsvResult = {
+export type CsvResult = {
   headers: string[];
   rows: string[][];
 };
 
+export type CsvTable = CsvResult & {
+  // Canonical header → header as written in the file.
+  aliases: Record<string, string>;
+};
+
+export type ParsedCsv = CsvTable & {
+  delimiter: string;
+};
+
+// What parsing a file detected, echoed back by the preview and the route.
+// Workbooks report `xlsx` as their encoding, no delimiter and the sheet read.
+export type CsvDetection = {
+  encoding: string;
+  delimiter: string;
+  aliases: Record<string, string>;
+  sheet?: string;
+};
+
+export type DecodedText = {
+  text: string;
+  encoding: string;
+};
+
+const DELIMITERS = [",", "\t", ";", "|"];
+const SNIFF_LINES = 20;
+
+// Header spellings seen in exported files, keyed by the name the submission
+// route looks for. Names are not aliased: `name` means a ligand or a gene
+// depending on the file, which the column mapping in the form settles.
+const HEADER_ALIASES: Record<string, string[]> = {
+  smiles: [
+    "canonical_smiles",
+    "isomeric_smiles",
+    "smiles_std",
+    "std_smiles",
+    "standard_smiles",
+    "smiles_string",
+  ],
+  sequence: [
+    "seq",
+    "protein_sequence",
+    "aa_sequence",
+    "amino_acid_sequence",
+    "target_sequence",
+  ],
+  uniprot: ["uniprot_id", "uniprot_ac", "uniprot_accession", "uniprotkb", "accession"],
+  pubchem_cid: ["cid", "pubchem_id", "pubchem"],
+  chembl_id: ["chembl", "molecule_chembl_id"],
+  inchikey: ["inchi_key", "standard_inchi_key", "standard_inchikey"],
+};
+
 function escapeCsvCell(value: string): string {
   if (/[",\r\n]/.test(value)) {
     return `"${value.replace(/"/g, "\"\"")}"`;
@@ -10,8 +61,119 @@ function escapeCsvCell(value: string): string {
   return value;
 }
 
-export function parseCsv(text: string): CsvResult {
+// Decodes an uploaded file. UTF-8 (with or without BOM) and UTF-16 with a BOM
+// are read as such; anything that is not valid UTF-8 is taken to be EUC-KR,
+// whose WHATWG decoder also covers the CP949 that Korean Excel writes.
+export function decodeCsvBytes(bytes: ArrayBuffer | Uint8Array): DecodedText {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+
+  if (view[0] === 0xff && view[1] === 0xfe) {
+    return { text: new TextDecoder("utf-16le").decode(view), encoding: "utf-16le" };
+  }
+  if (view[0] === 0xfe && view[1] === 0xff) {
+    return { text: new TextDecoder("utf-16be").decode(view), encoding: "utf-16be" };
+  }
+
+  for (const encoding of ["utf-8", "euc-kr"]) {
+    try {
+      return {
+        text: new TextDecoder(encoding, { fatal: true }).decode(view),
+        encoding,
+      };
+    } catch {
+      // Not this encoding; try the next one.
+    }
+  }
+
+  return { text: new TextDecoder("windows-1252").decode(view), encoding: "windows-1252" };
+}
+
+function countDelimiters(line: string, delimiter: string) {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === "\"") {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === delimiter) {
+      count += 1;
+    }
+  }
+  return count;
+}
+
+// Picks the delimiter that splits the first lines into the same, largest
+// number of columns. Single-column files fall back to a comma.
+export function sniffDelimiter(text: string): string {
+  const lines = text
+    .split(/\r\n|\r|\n/)
+    .filter((line) => line.trim() !== "")
+    .slice(0, SNIFF_LINES);
+
+  let best = { delimiter: ",", consistent: 0, columns: 0 };
+  for (const delimiter of DELIMITERS) {
+    const counts = lines.map((line) => countDelimiters(line, delimiter));
+    const columns = counts[0] ?? 0;
+    if (columns === 0) {
+      continue;
+    }
+    const consistent = counts.filter((count) => count === columns).length;
+    if (
+      consistent > best.consistent ||
+      (consistent === best.consistent && columns > best.columns)
+    ) {
+      best = { delimiter, consistent, columns };
+    }
+  }
+
+  return best.delimiter;
+}
+
+function normalizeHeaderName(header: string) {
+  return header.trim().toLowerCase().replace(/[\s-]+/g, "_");
+}
+
+// Renames the first alias of each canonical header, unless the file already
+// has the canonical header itself.
+function resolveHeaderAliases(headers: string[]) {
+  const normalized = headers.map(normalizeHeaderName);
+  const aliases: Record<string, string> = {};
+  const resolved = [...headers];
+
+  Object.entries(HEADER_ALIASES).forEach(([canonical, names]) => {
+    if (normalized.includes(canonical)) {
+      return;
+    }
+    const index = normalized.findIndex((header) => names.includes(header));
+    if (index >= 0) {
+      aliases[canonical] = headers[index];
+      resolved[index] = canonical;
+    }
+  });
+
+  return { headers: resolved, aliases };
+}
+
+// Drops blank lines and splits off the header row. Shared with workbook
+// sheets so both end up in the same shape.
+export function tableFromRows(rows: string[][]): CsvTable {
+  const trimmed = rows.filter((line) => line.some((cell) => cell.trim() !== ""));
+  const { headers, aliases } = resolveHeaderAliases(
+    trimmed.shift()?.map((header) => header.trim()) ?? []
+  );
+
+  return {
+    headers,
+    rows: trimmed,
+    aliases,
+  };
+}
+
+export function parseCsv(
+  text: string,
+  options: { delimiter?: string } = {}
+): ParsedCsv {
   const normalized = text.replace(/^\uFEFF/, "");
+  const delimiter = options.delimiter ?? sniffDelimiter(normalized);
   const rows: string[][] = [];
   let row: string[] = [];
   let field = "";
@@ -37,7 +199,7 @@ export function parseCsv(text: string): CsvResult {
 
     if (char === "\"") {
       inQuotes = true;
-    } else if (char === ",") {
+    } else if (char === delimiter) {
       row.push(field);
       field = "";
     } else if (char === "\n") {
@@ -64,12 +226,9 @@ export function parseCsv(text: string): CsvResult {
     rows.push(row);
   }
 
-  const trimmed = rows.filter((line) => line.some((cell) => cell.trim() !== ""));
-  const headers = trimmed.shift()?.map((header) => header.trim()) ?? [];
-
   return {
-    headers,
-    rows: trimmed,
+    ...tableFromRows(rows),
+    delimiter,
   };
 }
 
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { fastaToTable, isFastaFileName, parseFasta } from "@/lib/fasta";
+
+const UNIPROT_FASTA = [
+  ">sp|P00533|EGFR_HUMAN Epidermal growth factor receptor OS=Homo sapiens GN=EGFR PE=1",
+  "MRPSGTAGAA",
+  "LLALLAALCP",
+  "",
+  ">tr|A0A024R161|A0A024R161_HUMAN Uncharacterized protein OS=Homo sapiens",
+  "MKT",
+  "; a comment",
+  ">BRAF kinase domain",
+  "MAALSGGGGG*",
+].join("\r\n");
+
+describe("parseFasta", () => {
+  it("joins sequence lines and skips blanks and comments", () => {
+    expect(parseFasta(`\uFEFF${UNIPROT_FASTA}`)).toEqual([
+      {
+        header:
+          "sp|P00533|EGFR_HUMAN Epidermal growth factor receptor OS=Homo sapiens GN=EGFR PE=1",
+        sequence: "MRPSGTAGAALLALLAALCP",
+      },
+      {
+        header: "tr|A0A024R161|A0A024R161_HUMAN Uncharacterized protein OS=Homo sapiens",
+        sequence: "MKT",
+      },
+      { header: "BRAF kinase domain", sequence: "MAALSGGGGG*" },
+    ]);
+  });
+
+  it("ignores lines before the first header", () => {
+    expect(parseFasta("MKT\n>A\nMV")).toEqual([{ header: "A", sequence: "MV" }]);
+  });
+});
+
+describe("fastaToTable", () => {
+  it("takes names from GN=, the entry name or the first token", () => {
+    const table = fastaToTable(UNIPROT_FASTA);
+    expect(table.headers).toEqual(["name", "sequence", "uniprot"]);
+    expect(table.rows).toEqual([
+      ["EGFR", "MRPSGTAGAALLALLAALCP", "P00533"],
+      ["A0A024R161", "MKT", "A0A024R161"],
+      ["BRAF", "MAALSGGGGG*", ""],
+    ]);
+  });
+});
+
+describe("isFastaFileName", () => {
+  it("matches .fasta and .fa", () => {
+    expect(isFastaFileName("targets.FASTA")).toBe(true);
+    expect(isFastaFileName("targets.fa")).toBe(true);
+    expect(isFastaFileName("targets.csv")).toBe(false);
+  });
+});
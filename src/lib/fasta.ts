@@ -0,0 +1,63 @@
+import type { CsvResult } from "@/lib/csv";
+
+export type FastaRecord = {
+  header: string;
+  sequence: string;
+};
+
+const FASTA_EXTENSIONS = [".fasta", ".fa"];
+
+export function isFastaFileName(name: string) {
+  const lowered = name.toLowerCase();
+  return FASTA_EXTENSIONS.some((extension) => lowered.endsWith(extension));
+}
+
+export function parseFasta(text: string): FastaRecord[] {
+  const records: FastaRecord[] = [];
+  let current: FastaRecord | null = null;
+
+  for (const rawLine of text.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(";")) {
+      continue;
+    }
+    if (line.startsWith(">")) {
+      current = { header: line.slice(1).trim(), sequence: "" };
+      records.push(current);
+    } else if (current) {
+      current.sequence += line;
+    }
+  }
+
+  return records;
+}
+
+// UniProt headers look like `sp|P00533|EGFR_HUMAN Epidermal ... GN=EGFR PE=1`.
+// Prefer the GN= field, then the entry name prefix; other headers use their
+// first token as-is.
+export function geneSymbolFromHeader(header: string) {
+  const uniprot = /^(sp|tr)\|([^|]+)\|(\S+)/.exec(header);
+  if (uniprot) {
+    const geneName = /\bGN=(\S+)/.exec(header);
+    if (geneName) {
+      return geneName[1];
+    }
+    return uniprot[3].split("_")[0];
+  }
+  return header.split(/\s+/)[0] ?? "";
+}
+
+export function accessionFromHeader(header: string) {
+  return /^(sp|tr)\|([^|]+)\|/.exec(header)?.[2] ?? "";
+}
+
+export function fastaToTable(text: string): CsvResult {
+  return {
+    headers: ["name", "sequence", "uniprot"],
+    rows: parseFasta(text).map((record) => [
+      geneSymbolFromHeader(record.header),
+      record.sequence,
+      accessionFromHeader(record.header),
+    ]),
+  };
+}
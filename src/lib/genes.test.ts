@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { resolveEnsemblIds } from "@/lib/genes";
+import type { GeneLookup } from "@/lib/providers";
+import {
+  WARNING_GENE_ID_VERSIONED,
+  WARNING_GENE_SYMBOL_AMBIGUOUS,
+  WARNING_GENE_SYMBOL_DEPRECATED,
+  WARNING_GENE_SYMBOL_UNRESOLVED,
+} from "@/lib/warnings";
+
+const lookupSymbols = vi.fn<(symbols: string[]) => Promise<GeneLookup>>();
+
+vi.mock("@/lib/providers", () => ({
+  getProviders: () => ({ genes: { lookupSymbols } }),
+}));
+
+describe("resolveEnsemblIds", () => {
+  beforeEach(() => {
+    lookupSymbols.mockReset();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("passes Ensembl IDs through without a lookup", async () => {
+    const { genes, lookupFailed } = await resolveEnsemblIds(["ENSG00000146648.18"]);
+
+    expect(lookupSymbols).not.toHaveBeenCalled();
+    expect(genes.get("ENSG00000146648.18")).toEqual({
+      ensemblId: "ENSG00000146648",
+      warnings: [WARNING_GENE_ID_VERSIONED],
+    });
+    expect(lookupFailed.size).toBe(0);
+  });
+
+  it("warns about unknown, ambiguous and previous symbols", async () => {
+    lookupSymbols.mockResolvedValue({
+      matches: new Map([
+        ["EGFR", { ids: ["ENSG00000146648"], synonym: false }],
+        ["ERBB", { ids: ["ENSG00000146648"], synonym: true }],
+        ["TWO", { ids: ["ENSG00000000001", "ENSG00000000002"], synonym: true }],
+      ]),
+      lookupFailed: new Set(),
+    });
+
+    const { genes } = await resolveEnsemblIds(["EGFR", "ERBB", "TWO", "NOPE"]);
+    expect(genes.get("EGFR")).toEqual({ ensemblId: "ENSG00000146648", warnings: [] });
+    expect(genes.get("ERBB")?.warnings).toEqual([WARNING_GENE_SYMBOL_DEPRECATED]);
+    expect(genes.get("TWO")?.warnings).toEqual([WARNING_GENE_SYMBOL_AMBIGUOUS]);
+    expect(genes.get("NOPE")?.warnings).toEqual([WARNING_GENE_SYMBOL_UNRESOLVED]);
+  });
+
+  it("only marks the symbols whose lookup failed", async () => {
+    lookupSymbols.mockResolvedValue({
+      matches: new Map([["EGFR", { ids: ["ENSG00000146648"], synonym: false }]]),
+      lookupFailed: new Set(["ERBB"]),
+    });
+
+    const { genes, lookupFailed } = await resolveEnsemblIds(["EGFR", "ERBB"]);
+    expect(genes.get("EGFR")?.ensemblId).toBe("ENSG00000146648");
+    expect(genes.get("ERBB")).toEqual({ ensemblId: null, warnings: [] });
+    expect(Array.from(lookupFailed)).toEqual(["ERBB"]);
+  });
+
+  it("marks every symbol when the provider fails", async () => {
+    lookupSymbols.mockRejectedValue(new Error("Ensembl error: 503"));
+
+    const { genes, lookupFailed } = await resolveEnsemblIds([
+      "EGFR",
+      "ENSG00000141510",
+    ]);
+    expect(Array.from(lookupFailed)).toEqual(["EGFR"]);
+    expect(genes.get("EGFR")).toEqual({ ensemblId: null, warnings: [] });
+    expect(genes.get("ENSG00000141510")?.ensemblId).toBe("ENSG00000141510");
+  });
+});
@@ -0,0 +1,105 @@
+import { getProviders, type GeneMatch } from "@/lib/providers";
+import {
+  WARNING_GENE_ID_NON_HUMAN,
+  WARNING_GENE_ID_VERSIONED,
+  WARNING_GENE_SYMBOL_AMBIGUOUS,
+  WARNING_GENE_SYMBOL_DEPRECATED,
+  WARNING_GENE_SYMBOL_UNRESOLVED,
+} from "@/lib/warnings";
+
+// Stable gene IDs of any Ensembl species (ENSG, ENSMUSG, ...), optionally
+// versioned. Only ENSG IDs are human.
+const ENSEMBL_GENE_ID = /^ENS[A-Z]*G\d+(\.\d+)?$/;
+const HUMAN_GENE_ID = /^ENSG\d+$/;
+
+export type ResolvedGene = {
+  ensemblId: string | null;
+  warnings: string[];
+};
+
+export type GeneResolution = {
+  // Keyed by the trimmed input name.
+  genes: Map<string, ResolvedGene>;
+  // Names that could not be looked up at all, as opposed to names the
+  // provider answered for but does not know.
+  lookupFailed: Set<string>;
+};
+
+// Names that already are Ensembl gene IDs; null for anything else.
+function resolveGeneId(name: string): ResolvedGene | null {
+  const upper = name.toUpperCase();
+  if (!ENSEMBL_GENE_ID.test(upper)) {
+    return null;
+  }
+  const [id, version] = upper.split(".");
+  const warnings = version === undefined ? [] : [WARNING_GENE_ID_VERSIONED];
+  if (!HUMAN_GENE_ID.test(id)) {
+    return { ensemblId: null, warnings: [...warnings, WARNING_GENE_ID_NON_HUMAN] };
+  }
+  return { ensemblId: id, warnings };
+}
+
+export function resolveGeneMatch(match: GeneMatch | undefined): ResolvedGene {
+  const ids = Array.from(
+    new Set((match?.ids ?? []).map((id) => id.toUpperCase().split(".")[0]))
+  );
+  if (ids.length === 0) {
+    return { ensemblId: null, warnings: [WARNING_GENE_SYMBOL_UNRESOLVED] };
+  }
+  const human = ids.filter((id) => HUMAN_GENE_ID.test(id));
+  if (human.length === 0) {
+    return { ensemblId: null, warnings: [WARNING_GENE_ID_NON_HUMAN] };
+  }
+  if (human.length > 1) {
+    return { ensemblId: null, warnings: [WARNING_GENE_SYMBOL_AMBIGUOUS] };
+  }
+  return {
+    ensemblId: human[0],
+    warnings: match?.synonym ? [WARNING_GENE_SYMBOL_DEPRECATED] : [],
+  };
+}
+
+// Ensembl IDs pass through; symbols go to the configured gene provider. A
+// provider failure leaves those symbols unresolved instead of failing.
+export async function resolveEnsemblIds(names: string[]): Promise<GeneResolution> {
+  const genes = new Map<string, ResolvedGene>();
+  const lookupFailed = new Set<string>();
+  const pending = new Set<string>();
+
+  for (const raw of names) {
+    const trimmed = raw.trim();
+    if (!trimmed || genes.has(trimmed)) {
+      continue;
+    }
+    const direct = resolveGeneId(trimmed);
+    if (direct) {
+      genes.set(trimmed, direct);
+    } else {
+      pending.add(trimmed);
+    }
+  }
+
+  if (pending.size === 0) {
+    return { genes, lookupFailed };
+  }
+
+  try {
+    const lookup = await getProviders().genes.lookupSymbols(Array.from(pending));
+    pending.forEach((symbol) => {
+      if (lookup.lookupFailed.has(symbol)) {
+        lookupFailed.add(symbol);
+        genes.set(symbol, { ensemblId: null, warnings: [] });
+      } else {
+        genes.set(symbol, resolveGeneMatch(lookup.matches.get(symbol)));
+      }
+    });
+  } catch (error) {
+    console.error("ensembl.lookup.failed", error);
+    pending.forEach((symbol) => {
+      lookupFailed.add(symbol);
+      genes.set(symbol, { ensemblId: null, warnings: [] });
+    });
+  }
+
+  return { genes, lookupFailed };
+}
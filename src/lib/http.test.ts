@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createHttpClient } from "@/lib/http";
+
+const fetchMock = vi.fn<typeof fetch>();
+
+const FAST = { baseDelayMs: 1, maxDelayMs: 1, cooldownMs: 60000 };
+
+describe("createHttpClient", () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("retries 5xx responses and returns the first good one", async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response("", { status: 503 }))
+      .mockResolvedValueOnce(new Response("ok", { status: 200 }));
+    const client = createHttpClient("test", FAST);
+
+    const response = await client.fetch("https://example.test", {});
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(client.stats()).toMatchObject({ requests: 1, retries: 1, failures: 0 });
+  });
+
+  it("returns non-retryable responses as they are", async () => {
+    fetchMock.mockResolvedValue(new Response("", { status: 404 }));
+    const client = createHttpClient("test", FAST);
+
+    expect((await client.fetch("https://example.test", {})).status).toBe(404);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("opens the circuit after repeated failures and fails fast", async () => {
+    fetchMock.mockRejectedValue(new Error("network down"));
+    const client = createHttpClient("test", {
+      ...FAST,
+      maxRetries: 0,
+      failureThreshold: 2,
+    });
+
+    await expect(client.fetch("https://example.test", {})).rejects.toThrow("network down");
+    await expect(client.fetch("https://example.test", {})).rejects.toThrow("network down");
+    await expect(client.fetch("https://example.test", {})).rejects.toThrow(
+      "test circuit open"
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(client.stats().circuit).toBe("open");
+  });
+});
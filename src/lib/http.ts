@@ -0,0 +1,239 @@
+export async function fetchWithTimeout(
+  url: string,
+  options: RequestInit,
+  timeoutMs: number
+) {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...options, signal: controller.signal });
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export type HttpClientOptions = {
+  concurrency: number;
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  failureThreshold: number;
+  cooldownMs: number;
+};
+
+export type HttpClientStats = {
+  name: string;
+  requests: number;
+  retries: number;
+  failures: number;
+  totalMs: number;
+  lastStatus: number | null;
+  lastError: string | null;
+  lastFailureAt: string | null;
+  circuit: "closed" | "open" | "half_open";
+  inFlight: number;
+  queued: number;
+};
+
+export type HttpClient = {
+  fetch(url: string, options: RequestInit): Promise<Response>;
+  stats(): HttpClientStats;
+};
+
+const DEFAULT_CLIENT_OPTIONS: HttpClientOptions = {
+  concurrency: 4,
+  timeoutMs: 10000,
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  failureThreshold: 5,
+  cooldownMs: 30000,
+};
+
+const clients = new Map<string, HttpClient>();
+
+function isRetryableStatus(status: number) {
+  return status === 429 || status >= 500;
+}
+
+// Retry-After is either delta-seconds or an HTTP date.
+function retryAfterMs(response: Response) {
+  const header = response.headers.get("retry-after");
+  if (!header) {
+    return null;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds, 0) * 1000;
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Outbound client for one upstream: at most `concurrency` requests in flight,
+// exponential backoff with jitter on 429/5xx and network errors (honoring
+// Retry-After), and a circuit breaker that fails fast for `cooldownMs` after
+// `failureThreshold` consecutive failed requests. Non-retryable responses are
+// returned to the caller as-is.
+export function createHttpClient(
+  name: string,
+  overrides: Partial<HttpClientOptions> = {}
+): HttpClient {
+  const options = { ...DEFAULT_CLIENT_OPTIONS, ...overrides };
+  const waiting: Array<() => void> = [];
+  let inFlight = 0;
+  let consecutiveFailures = 0;
+  let openedAt: number | null = null;
+  const stats = {
+    requests: 0,
+    retries: 0,
+    failures: 0,
+    totalMs: 0,
+    lastStatus: null as number | null,
+    lastError: null as string | null,
+    lastFailureAt: null as string | null,
+  };
+
+  const acquire = async () => {
+    if (inFlight < options.concurrency) {
+      inFlight += 1;
+      return;
+    }
+    // The releasing request hands its slot over, so inFlight stays the same.
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  };
+
+  const release = () => {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      inFlight -= 1;
+    }
+  };
+
+  const circuitState = () => {
+    if (openedAt === null) {
+      return "closed" as const;
+    }
+    return Date.now() - openedAt >= options.cooldownMs
+      ? ("half_open" as const)
+      : ("open" as const);
+  };
+
+  const recordFailure = (message: string) => {
+    stats.failures += 1;
+    stats.lastError = message;
+    stats.lastFailureAt = new Date().toISOString();
+    consecutiveFailures += 1;
+    console.error("http.request.failed", { client: name, error: message });
+    // A failed half-open probe re-opens the circuit for another cooldown.
+    if (consecutiveFailures >= options.failureThreshold || openedAt !== null) {
+      if (openedAt === null) {
+        console.warn("http.circuit.opened", {
+          client: name,
+          failures: consecutiveFailures,
+        });
+      }
+      openedAt = Date.now();
+    }
+  };
+
+  const attempt = async (url: string, init: RequestInit) => {
+    await acquire();
+    try {
+      return await fetchWithTimeout(url, init, options.timeoutMs);
+    } finally {
+      release();
+    }
+  };
+
+  return {
+    async fetch(url, init) {
+      if (circuitState() === "open") {
+        throw new Error(`${name} circuit open`);
+      }
+
+      const startedAt = Date.now();
+      stats.requests += 1;
+
+      for (let retry = 0; ; retry += 1) {
+        let delayMs: number | null = null;
+        let failure: string;
+
+        try {
+          const response = await attempt(url, init);
+          stats.lastStatus = response.status;
+
+          if (!isRetryableStatus(response.status)) {
+            if (openedAt !== null) {
+              console.warn("http.circuit.closed", { client: name });
+            }
+            consecutiveFailures = 0;
+            openedAt = null;
+            stats.totalMs += Date.now() - startedAt;
+            return response;
+          }
+
+          failure = `${name} error: ${response.status}`;
+          delayMs = retryAfterMs(response);
+          // The body is not needed; release the connection.
+          await response.body?.cancel().catch(() => undefined);
+        } catch (error) {
+          failure = error instanceof Error ? error.message : String(error);
+        }
+
+        if (retry >= options.maxRetries) {
+          stats.totalMs += Date.now() - startedAt;
+          recordFailure(failure);
+          throw new Error(failure);
+        }
+
+        const backoff = Math.min(
+          options.baseDelayMs * 2 ** retry,
+          options.maxDelayMs
+        );
+        stats.retries += 1;
+        await sleep(
+          delayMs !== null
+            ? Math.min(delayMs, options.maxDelayMs)
+            : backoff / 2 + Math.random() * (backoff / 2)
+        );
+      }
+    },
+
+    stats() {
+      return {
+        name,
+        ...stats,
+        circuit: circuitState(),
+        inFlight,
+        queued: waiting.length,
+      };
+    },
+  };
+}
+
+// Clients are shared per upstream name so limits and the breaker apply across
+// every caller in the process.
+export function getHttpClient(
+  name: string,
+  overrides: Partial<HttpClientOptions> = {}
+) {
+  const existing = clients.get(name);
+  if (existing) {
+    return existing;
+  }
+  const client = createHttpClient(name, overrides);
+  clients.set(name, client);
+  return client;
+}
+
+export function httpClientStats() {
+  return Array.from(clients.values(), (client) => client.stats());
+}
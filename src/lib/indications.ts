@@ -1,19 +1,105 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
 export type IndicationOption = {
   id: string;
   label: string;
 };
 
-export const INDICATIONS: IndicationOption[] = [
-  { id: "EFO_0000565", label: "Leukemia" },
-];
+export const DEFAULT_INDICATION_ID = "EFO_0000565";
+// Per submission; shared by the form and the submission route.
+export const MAX_INDICATIONS = 10;
+
+const INDICATION_ID_PATTERN = /^(EFO|MONDO|Orphanet|HP|DOID)_\d+$/i;
+const SEARCH_LIMIT = 10;
+
+// Accepts `EFO:0000565`, `efo_0000565` and URLs ending in the ID; returns the
+// `EFO_0000565` form OpenTargets uses, or null.
+export function normalizeIndicationId(value: string) {
+  const tail = value.trim().split("/").pop() ?? "";
+  const candidate = tail.replace(":", "_");
+  if (!INDICATION_ID_PATTERN.test(candidate)) {
+    return null;
+  }
+  const [prefix, digits] = candidate.split("_");
+  const canonicalPrefix =
+    prefix.toLowerCase() === "orphanet" ? "Orphanet" : prefix.toUpperCase();
+  return `${canonicalPrefix}_${digits}`;
+}
+
+// A `%value%` ilike pattern for a PostgREST `or=(...)` filter. LIKE
+// wildcards are escaped, and the pattern is double-quoted so `,`, `.`, `(`
+// and `)` in the search text do not break the filter syntax.
+function containsPattern(value: string) {
+  const pattern = `%${value.replace(/[\\%_]/g, "\\$&")}%`;
+  return `"${pattern.replace(/[\\"]/g, "\\$&")}"`;
+}
+
+export async function searchIndications(
+  supabase: SupabaseClient,
+  query: string,
+  limit = SEARCH_LIMIT
+): Promise<IndicationOption[]> {
+  let request = supabase
+    .from("indications")
+    .select("id,label")
+    .eq("enabled", true)
+    .order("label", { ascending: true })
+    .limit(limit);
 
-export const DEFAULT_INDICATION_ID = INDICATIONS[0]?.id ?? "";
+  const trimmed = query.trim();
+  if (trimmed) {
+    const pattern = containsPattern(trimmed);
+    const normalizedId = normalizeIndicationId(trimmed);
+    request = request.or(
+      normalizedId
+        ? `id.eq.${normalizedId},label.ilike.${pattern}`
+        : `id.ilike.${pattern},label.ilike.${pattern}`
+    );
+  }
+
+  const { data, error } = await request;
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data ?? [];
+}
+
+export async function fetchIndicationLabels(
+  supabase: SupabaseClient,
+  ids: string[]
+) {
+  const labels = new Map<string, string>();
+  const unique = Array.from(new Set(ids.filter(Boolean)));
+  if (unique.length === 0) {
+    return labels;
+  }
+
+  const { data, error } = await supabase
+    .from("indications")
+    .select("id,label")
+    .in("id", unique);
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  (data ?? []).forEach((row) => labels.set(row.id, row.label));
+  return labels;
+}
 
-export function isValidIndication(id: string) {
-  return INDICATIONS.some((option) => option.id === id);
+export async function isValidIndication(supabase: SupabaseClient, id: string) {
+  const { data, error } = await supabase
+    .from("indications")
+    .select("id")
+    .eq("id", id)
+    .eq("enabled", true)
+    .maybeSingle();
+  if (error) {
+    throw new Error(error.message);
+  }
+  return Boolean(data);
 }
 
-export function getIndicationLabel(id: string) {
-  const match = INDICATIONS.find((option) => option.id === id);
-  return match?.label ?? id;
+export async function getIndicationLabel(supabase: SupabaseClient, id: string) {
+  const labels = await fetchIndicationLabels(supabase, [id]);
+  return labels.get(id) ?? id;
 }
@@ -0,0 +1,241 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  failStaleJob,
+  processPreviewJob,
+  processSubmissionJob,
+  type SubmissionJobRow,
+} from "@/lib/jobs";
+import {
+  buildRunRows,
+  prepareSubmission,
+  type PreparedSubmission,
+  type SubmissionRequest,
+} from "@/lib/submission";
+
+vi.mock("@/lib/submission", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/submission")>()),
+  prepareSubmission: vi.fn(),
+  buildRunRows: vi.fn(),
+}));
+
+type Call = {
+  table: string;
+  op: "select" | "insert" | "update" | "delete" | "rpc";
+  values: unknown;
+  filters: Array<[string, string, unknown]>;
+};
+
+type Result = { data?: unknown; error?: unknown; count?: number };
+
+// Records every query and answers it through `respond`; enough of the
+// supabase-js builder for the job code.
+function fakeSupabase(respond: (call: Call) => Result) {
+  const calls: Call[] = [];
+
+  const run = (call: Call) => {
+    calls.push(call);
+    return Promise.resolve({ data: null, error: null, ...respond(call) });
+  };
+
+  const from = (table: string) => {
+    const call: Call = { table, op: "select", values: null, filters: [] };
+    const filter =
+      (kind: string) =>
+      (column: string, value: unknown) => {
+        call.filters.push([kind, column, value]);
+        return builder;
+      };
+    const builder = {
+      select: () => builder,
+      insert: (values: unknown) => Object.assign(call, { op: "insert", values }) && builder,
+      update: (values: unknown) => Object.assign(call, { op: "update", values }) && builder,
+      delete: () => Object.assign(call, { op: "delete" }) && builder,
+      eq: filter("eq"),
+      in: filter("in"),
+      lt: filter("lt"),
+      gt: filter("gt"),
+      single: () => builder,
+      maybeSingle: () => builder,
+      then: (
+        resolve: (value: Result) => unknown,
+        reject: (reason: unknown) => unknown
+      ) => run(call).then(resolve, reject),
+    };
+    return builder;
+  };
+
+  const rpc = (name: string, values: unknown) =>
+    run({ table: name, op: "rpc", values, filters: [] });
+
+  return { client: { from, rpc } as unknown as SupabaseClient, calls };
+}
+
+const jobUpdates = (calls: Call[]) =>
+  calls.filter((call) => call.table === "submission_jobs" && call.op === "update");
+
+const REQUEST: SubmissionRequest = {
+  mode: "cartesian",
+  memo: "",
+  indicationIds: ["EFO_0000565"],
+  ligandNameField: "",
+  ligandSheet: "",
+  targetSheet: "",
+  ligandFile: { name: "ligands.csv", text: "" },
+  targetFile: { name: "targets.csv", text: "" },
+  pairsFile: null,
+  columnMapping: {},
+} as SubmissionRequest;
+
+const PREPARED: PreparedSubmission = {
+  request: REQUEST,
+  modelVersion: "test",
+  pairs: [],
+  doneByHash: new Map(),
+  genes: [],
+  detected: {},
+};
+
+function prepareThroughStages() {
+  vi.mocked(prepareSubmission).mockImplementation(
+    async (_supabase, _request, _modelVersion, onStage) => {
+      await onStage?.("parsing");
+      await onStage?.("targets");
+      await onStage?.("duplicates");
+      return PREPARED;
+    }
+  );
+}
+
+describe("submission jobs", () => {
+  beforeEach(() => {
+    vi.mocked(prepareSubmission).mockReset();
+    vi.mocked(buildRunRows).mockReset();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    process.env.SUBMISSION_INSERT_CHUNK_SIZE = "1";
+  });
+
+  it("records each stage of a preview and stores the preview as the result", async () => {
+    prepareThroughStages();
+    const { client, calls } = fakeSupabase(() => ({ data: [{ id: "job" }] }));
+
+    await processPreviewJob(client, "job", REQUEST, "test");
+
+    const updates = jobUpdates(calls);
+    expect(updates.map((call) => (call.values as { stage?: string }).stage)).toEqual([
+      "parsing",
+      "targets",
+      "duplicates",
+      undefined,
+    ]);
+    expect(updates.at(-1)?.values).toMatchObject({
+      status: "done",
+      result: { pairs: 0, summary: { total: 0 } },
+    });
+    // Every update only applies while the job is still running.
+    updates.forEach((call) => {
+      expect(call.filters).toContainEqual(["eq", "status", "running"]);
+    });
+  });
+
+  it("fails the job with the error prepareSubmission returns", async () => {
+    vi.mocked(prepareSubmission).mockResolvedValue({ error: "bad file", status: 400 });
+    const { client, calls } = fakeSupabase(() => ({ data: [{ id: "job" }] }));
+
+    await processPreviewJob(client, "job", REQUEST, "test");
+
+    expect(jobUpdates(calls).at(-1)?.values).toMatchObject({
+      status: "failed",
+      error: "bad file",
+      error_status: 400,
+    });
+  });
+
+  it("stops once the job is no longer running", async () => {
+    prepareThroughStages();
+    const { client, calls } = fakeSupabase((call) =>
+      call.op === "update" && (call.values as { stage?: string }).stage === "targets"
+        ? { data: [] }
+        : { data: [{ id: "job" }] }
+    );
+
+    await processPreviewJob(client, "job", REQUEST, "test");
+
+    const stages = jobUpdates(calls).map(
+      (call) => (call.values as { stage?: string }).stage
+    );
+    expect(stages).toEqual(["parsing", "targets"]);
+  });
+
+  it("removes staged runs when a submission is aborted mid-insert", async () => {
+    prepareThroughStages();
+    vi.mocked(buildRunRows).mockResolvedValue([
+      { status: "queued" },
+      { status: "queued" },
+    ] as Awaited<ReturnType<typeof buildRunRows>>);
+    const { client, calls } = fakeSupabase((call) => {
+      if (call.op === "update") {
+        const values = call.values as { progress_done?: number };
+        return { data: values.progress_done === 1 ? [] : [{ id: "job" }] };
+      }
+      if (call.op === "select") {
+        return { count: 0 };
+      }
+      return {};
+    });
+
+    await processSubmissionJob(client, "job", "user", REQUEST, "test");
+
+    const batchId = (
+      calls.find((call) => call.table === "batches" && call.op === "insert")
+        ?.values as { id: string }
+    ).id;
+    expect(calls.filter((call) => call.table === "runs" && call.op === "insert")).toHaveLength(1);
+    expect(calls).toContainEqual(
+      expect.objectContaining({
+        table: "runs",
+        op: "delete",
+        filters: [
+          ["eq", "batch_id", batchId],
+          ["eq", "status", "staged"],
+        ],
+      })
+    );
+    expect(calls.some((call) => call.op === "rpc")).toBe(false);
+    expect(
+      jobUpdates(calls).some(
+        (call) => (call.values as { status?: string }).status === "done"
+      )
+    ).toBe(false);
+  });
+});
+
+describe("failStaleJob", () => {
+  const job = {
+    id: "job",
+    status: "running",
+    batch_id: "batch",
+    updated_at: new Date(0).toISOString(),
+  } as SubmissionJobRow;
+
+  it("leaves a job alone that moved on since it was read", async () => {
+    const { client, calls } = fakeSupabase(() => ({ data: [] }));
+
+    expect(await failStaleJob(client, job)).toBe(false);
+    expect(calls.some((call) => call.op === "delete")).toBe(false);
+  });
+
+  it("fails a stale job and removes its staged runs", async () => {
+    const { client, calls } = fakeSupabase((call) =>
+      call.op === "select" ? { count: 0 } : { data: [{ id: "job" }] }
+    );
+
+    expect(await failStaleJob(client, job)).toBe(true);
+    expect(jobUpdates(calls)[0].filters).toContainEqual(["eq", "status", "running"]);
+    expect(calls.filter((call) => call.op === "delete").map((call) => call.table)).toEqual([
+      "runs",
+      "batches",
+    ]);
+  });
+});
@@ -0,0 +1,424 @@
+import crypto from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  SUBMISSION_MODE_PAIRED,
+  buildRunRows,
+  prepareSubmission,
+  summarizePreview,
+  summarizeStatuses,
+  type SubmissionRequest,
+} from "@/lib/submission";
+
+export const JOB_STATUS_RUNNING = "running";
+export const JOB_STATUS_DONE = "done";
+export const JOB_STATUS_FAILED = "failed";
+
+export const JOB_KIND_SUBMIT = "submit";
+export const JOB_KIND_PREVIEW = "preview";
+
+export type JobKind = typeof JOB_KIND_SUBMIT | typeof JOB_KIND_PREVIEW;
+
+// In order; a failed job keeps the stage it failed in.
+export const JOB_STAGES = [
+  "queued",
+  "parsing",
+  "targets",
+  "duplicates",
+  "associations",
+  "inserting",
+] as const;
+
+export type JobStage = (typeof JOB_STAGES)[number];
+
+// A preview stops once duplicates are known.
+const PREVIEW_JOB_STAGES: JobStage[] = ["queued", "parsing", "targets", "duplicates"];
+
+export function jobStages(kind: string): readonly JobStage[] {
+  return kind === JOB_KIND_PREVIEW ? PREVIEW_JOB_STAGES : JOB_STAGES;
+}
+
+export type SubmissionJobRow = {
+  id: string;
+  user_id: string;
+  created_at: string;
+  updated_at: string;
+  kind: JobKind;
+  status: string;
+  stage: JobStage;
+  progress_done: number | null;
+  progress_total: number | null;
+  batch_id: string | null;
+  error: string | null;
+  error_status: number | null;
+  result: Record<string, unknown> | null;
+};
+
+type SubmissionJobPatch = Partial<
+  Omit<SubmissionJobRow, "id" | "user_id" | "created_at" | "updated_at" | "kind">
+>;
+
+// Running jobs heartbeat every quarter of this, so a job killed at the end of
+// its invocation (see maxDuration on POST /api/runs) is noticed within it.
+const DEFAULT_STALE_SECONDS = 120;
+const DEFAULT_INSERT_CHUNK_SIZE = 500;
+// Runs are written with this status until the whole batch is in, see
+// commit_staged_runs.
+export const RUN_STATUS_STAGED = "staged";
+export const STALE_JOB_ERROR = "처리가 중단되었습니다. 다시 제출해 주세요.";
+
+// A running job that has not moved for this long lost its server process.
+export function jobStaleSeconds() {
+  const parsed = Number.parseInt(process.env.SUBMISSION_JOB_STALE_SECONDS ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_STALE_SECONDS;
+}
+
+export function insertChunkSize() {
+  const parsed = Number.parseInt(process.env.SUBMISSION_INSERT_CHUNK_SIZE ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_INSERT_CHUNK_SIZE;
+}
+
+export function isStaleJob(job: Pick<SubmissionJobRow, "status" | "updated_at">) {
+  return (
+    job.status === JOB_STATUS_RUNNING &&
+    Date.now() - new Date(job.updated_at).getTime() > jobStaleSeconds() * 1000
+  );
+}
+
+export async function createSubmissionJob(
+  supabase: SupabaseClient,
+  userId: string,
+  kind: JobKind = JOB_KIND_SUBMIT
+) {
+  const { data, error } = await supabase
+    .from("submission_jobs")
+    .insert({ user_id: userId, kind, status: JOB_STATUS_RUNNING, stage: "queued" })
+    .select("id")
+    .single();
+
+  if (error || !data) {
+    console.error("jobs.create.failed", error);
+    return null;
+  }
+  return data.id as string;
+}
+
+// Thrown inside a job once it is no longer `running`, e.g. a poll failed it
+// as stale; processing stops and cleans up what it wrote.
+const JOB_ABORTED = "jobs.aborted";
+
+type JobContext = {
+  id: string;
+  // Set once the batch row exists, so an abort can remove it again.
+  batchId: string | null;
+};
+
+// Updates a running job and bumps updated_at. Returns false when the job is
+// no longer running; database errors are logged and treated as still running.
+async function updateSubmissionJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  patch: SubmissionJobPatch
+) {
+  const { data, error } = await supabase
+    .from("submission_jobs")
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq("id", jobId)
+    .eq("status", JOB_STATUS_RUNNING)
+    .select("id");
+
+  if (error) {
+    console.error("jobs.update.failed", { jobId, error });
+    return true;
+  }
+  return data.length > 0;
+}
+
+async function touchJob(
+  supabase: SupabaseClient,
+  job: JobContext,
+  patch: SubmissionJobPatch = {}
+) {
+  if (!(await updateSubmissionJob(supabase, job.id, patch))) {
+    throw new Error(JOB_ABORTED);
+  }
+}
+
+async function setStage(supabase: SupabaseClient, job: JobContext, stage: JobStage) {
+  await touchJob(supabase, job, {
+    stage,
+    progress_done: null,
+    progress_total: null,
+  });
+}
+
+// Removes whatever an unfinished insert left behind: staged runs, and the
+// batch itself once none of its runs remain.
+async function discardStagedBatch(supabase: SupabaseClient, batchId: string) {
+  const { error: runsError } = await supabase
+    .from("runs")
+    .delete()
+    .eq("batch_id", batchId)
+    .eq("status", RUN_STATUS_STAGED);
+
+  if (runsError) {
+    console.error("jobs.discard.failed", { batchId, error: runsError });
+    return;
+  }
+
+  const { count, error: countError } = await supabase
+    .from("runs")
+    .select("id", { count: "exact", head: true })
+    .eq("batch_id", batchId);
+
+  if (countError || count) {
+    if (countError) {
+      console.error("jobs.discard.failed", { batchId, error: countError });
+    }
+    return;
+  }
+
+  await supabase.from("batches").delete().eq("id", batchId);
+}
+
+async function failJob(
+  supabase: SupabaseClient,
+  job: JobContext,
+  error: string,
+  status = 500,
+  result: Record<string, unknown> | null = null
+) {
+  if (job.batchId) {
+    await discardStagedBatch(supabase, job.batchId);
+  }
+  await updateSubmissionJob(supabase, job.id, {
+    status: JOB_STATUS_FAILED,
+    error,
+    error_status: status,
+    result,
+  });
+}
+
+// Called when a poll finds a job whose process is gone. Only fails the job if
+// it is still running and still stale, so a heartbeat in between wins.
+export async function failStaleJob(supabase: SupabaseClient, job: SubmissionJobRow) {
+  const cutoff = new Date(Date.now() - jobStaleSeconds() * 1000).toISOString();
+  const { data, error } = await supabase
+    .from("submission_jobs")
+    .update({
+      status: JOB_STATUS_FAILED,
+      error: STALE_JOB_ERROR,
+      error_status: 500,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", job.id)
+    .eq("status", JOB_STATUS_RUNNING)
+    .lt("updated_at", cutoff)
+    .select("id");
+
+  if (error) {
+    console.error("jobs.update.failed", { jobId: job.id, error });
+    return false;
+  }
+  if (!data.length) {
+    return false;
+  }
+  if (job.batch_id) {
+    await discardStagedBatch(supabase, job.batch_id);
+  }
+  return true;
+}
+
+async function runSubmission(
+  supabase: SupabaseClient,
+  job: JobContext,
+  userId: string,
+  submission: SubmissionRequest,
+  modelVersion: string
+) {
+  const prepared = await prepareSubmission(supabase, submission, modelVersion, (stage) =>
+    setStage(supabase, job, stage)
+  );
+
+  if ("error" in prepared) {
+    await failJob(
+      supabase,
+      job,
+      prepared.error,
+      prepared.status,
+      prepared.detected ? { detected: prepared.detected } : null
+    );
+    return;
+  }
+
+  const { mode, memo, indicationIds } = submission;
+  const now = new Date().toISOString();
+  const batchId = crypto.randomUUID();
+
+  await setStage(supabase, job, "associations");
+  const rowsToInsert = await buildRunRows(supabase, prepared, {
+    userId,
+    batchId,
+    createdAt: now,
+  });
+  const summary = summarizeStatuses(rowsToInsert);
+
+  const { error: batchError } = await supabase.from("batches").insert({
+    id: batchId,
+    user_id: userId,
+    created_at: now,
+    mode,
+    indication_id: indicationIds[0] ?? "",
+    indication_ids: indicationIds,
+    memo,
+    ligand_file_name:
+      mode === SUBMISSION_MODE_PAIRED ? null : submission.ligandFile?.name ?? null,
+    target_file_name:
+      mode === SUBMISSION_MODE_PAIRED ? null : submission.targetFile?.name ?? null,
+    pairs_file_name:
+      mode === SUBMISSION_MODE_PAIRED ? submission.pairsFile?.name ?? null : null,
+    pair_count: prepared.pairs.length,
+    ...summary,
+  });
+
+  if (batchError) {
+    await failJob(supabase, job, "batch 저장에 실패했습니다.");
+    return;
+  }
+  job.batchId = batchId;
+
+  // The batch id is recorded first so a poll can clean up after a process
+  // that dies mid-insert.
+  await touchJob(supabase, job, {
+    stage: "inserting",
+    batch_id: batchId,
+    progress_done: 0,
+    progress_total: rowsToInsert.length,
+  });
+
+  const chunkSize = insertChunkSize();
+  for (let start = 0; start < rowsToInsert.length; start += chunkSize) {
+    const chunk = rowsToInsert.slice(start, start + chunkSize).map((row) => ({
+      ...row,
+      status: RUN_STATUS_STAGED,
+      staged_status: row.status,
+    }));
+    const { error: insertError } = await supabase.from("runs").insert(chunk);
+
+    if (insertError) {
+      console.error("jobs.insert.failed", {
+        jobId: job.id,
+        batchId,
+        start,
+        error: insertError,
+      });
+      await failJob(supabase, job, "runs 저장에 실패했습니다.");
+      return;
+    }
+    await touchJob(supabase, job, { progress_done: start + chunk.length });
+  }
+
+  const { error: commitError } = await supabase.rpc("commit_staged_runs", {
+    p_batch_id: batchId,
+  });
+
+  if (commitError) {
+    console.error("jobs.commit.failed", { jobId: job.id, batchId, error: commitError });
+    await failJob(supabase, job, "runs 저장에 실패했습니다.");
+    return;
+  }
+
+  await updateSubmissionJob(supabase, job.id, {
+    status: JOB_STATUS_DONE,
+    result: {
+      batch_id: batchId,
+      mode,
+      pairs: prepared.pairs.length,
+      summary,
+      detected: prepared.detected,
+    },
+  });
+}
+
+async function runPreview(
+  supabase: SupabaseClient,
+  job: JobContext,
+  submission: SubmissionRequest,
+  modelVersion: string
+) {
+  const prepared = await prepareSubmission(supabase, submission, modelVersion, (stage) =>
+    setStage(supabase, job, stage)
+  );
+
+  if ("error" in prepared) {
+    await failJob(
+      supabase,
+      job,
+      prepared.error,
+      prepared.status,
+      prepared.detected ? { detected: prepared.detected } : null
+    );
+    return;
+  }
+
+  await updateSubmissionJob(supabase, job.id, {
+    status: JOB_STATUS_DONE,
+    result: summarizePreview(prepared),
+  });
+}
+
+// A heartbeat keeps updated_at fresh through long lookups so polls do not
+// take the job for stale. Never throws: anything unexpected fails the job
+// instead.
+async function runJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  work: (job: JobContext) => Promise<void>
+) {
+  const job: JobContext = { id: jobId, batchId: null };
+  const heartbeat = setInterval(() => {
+    void updateSubmissionJob(supabase, jobId, {});
+  }, (jobStaleSeconds() * 1000) / 4);
+
+  try {
+    await work(job);
+  } catch (error) {
+    if (error instanceof Error && error.message === JOB_ABORTED) {
+      console.warn("jobs.process.aborted", { jobId });
+      if (job.batchId) {
+        await discardStagedBatch(supabase, job.batchId);
+      }
+    } else {
+      console.error("jobs.process.failed", { jobId, error });
+      await failJob(supabase, job, "제출 처리에 실패했습니다.");
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+// Does what POST /api/runs used to do inline, recording each stage on the
+// job.
+export async function processSubmissionJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  userId: string,
+  submission: SubmissionRequest,
+  modelVersion: string
+) {
+  await runJob(supabase, jobId, (job) =>
+    runSubmission(supabase, job, userId, submission, modelVersion)
+  );
+}
+
+// The dry run behind POST /api/runs/preview: the same checks and lookups as a
+// submission, with the preview as the job result and nothing else written.
+export async function processPreviewJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  submission: SubmissionRequest,
+  modelVersion: string
+) {
+  await runJob(supabase, jobId, (job) =>
+    runPreview(supabase, job, submission, modelVersion)
+  );
+}
@@ -0,0 +1,231 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type {
+  CompoundCandidate,
+  CompoundIdentifierKind,
+  DataProviders,
+  GeneMatch,
+  ProteinEntry,
+} from "@/lib/providers/types";
+
+// On-disk layout, one JSON file per upstream:
+//   ensembl.json      { "symbols": { "EGFR": "ENSG00000146648" },
+//                       "synonyms": { "ERBB": ["ENSG00000146648"] } }
+//   uniprot.json      { "entries": { "P00533": { ...ProteinEntry } } }
+//   compounds.json    { "pubchem_cid": { "2244": [{ "smiles": "...",
+//                                                  "source": "pubchem:cid:2244" }] },
+//                       "chembl_id": {}, "inchikey": {}, "name": {} }
+//   opentargets.json  { "release": "25.03",
+//                       "associations": { "EFO_0000565": { "ENSG...": 0.42 } } }
+// Targets missing under an indication have no association (null score).
+type EnsemblFixture = {
+  symbols?: Record<string, string>;
+  synonyms?: Record<string, string[]>;
+};
+
+type UniProtFixture = {
+  entries?: Record<string, ProteinEntry>;
+};
+
+type CompoundsFixture = Partial<
+  Record<CompoundIdentifierKind, Record<string, CompoundCandidate[]>>
+>;
+
+type OpenTargetsFixture = {
+  release?: string;
+  associations?: Record<string, Record<string, number | null>>;
+};
+
+const ENSEMBL_FILE = "ensembl.json";
+const UNIPROT_FILE = "uniprot.json";
+const COMPOUNDS_FILE = "compounds.json";
+const OPENTARGETS_FILE = "opentargets.json";
+const DEFAULT_FIXTURE_RELEASE = "fixture";
+
+async function readFixture<T>(dir: string, file: string): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(dir, file), "utf8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return {} as T;
+    }
+    throw error;
+  }
+}
+
+async function writeFixture(dir: string, file: string, value: unknown) {
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(
+    path.join(dir, file),
+    `${JSON.stringify(value, null, 2)}\n`,
+    "utf8"
+  );
+}
+
+export function createFixtureProviders(dir: string): DataProviders {
+  return {
+    name: "fixture",
+    genes: {
+      async lookupSymbols(symbols) {
+        const fixture = await readFixture<EnsemblFixture>(dir, ENSEMBL_FILE);
+        const resolved = new Map<string, GeneMatch>();
+        for (const symbol of symbols) {
+          const key = symbol.toUpperCase();
+          const id = fixture.symbols?.[symbol] ?? fixture.symbols?.[key];
+          const synonymIds = fixture.synonyms?.[symbol] ?? fixture.synonyms?.[key];
+          if (id) {
+            resolved.set(symbol, { ids: [id], synonym: false });
+          } else if (synonymIds?.length) {
+            resolved.set(symbol, { ids: synonymIds, synonym: true });
+          }
+        }
+        return { matches: resolved, lookupFailed: new Set<string>() };
+      },
+    },
+    proteins: {
+      async fetchEntries(accessions) {
+        const fixture = await readFixture<UniProtFixture>(dir, UNIPROT_FILE);
+        const entries = new Map<string, ProteinEntry>();
+        for (const accession of accessions) {
+          const entry = fixture.entries?.[accession];
+          if (entry) {
+            entries.set(accession, entry);
+          }
+        }
+        return entries;
+      },
+    },
+    compounds: {
+      async lookup(kind, values) {
+        const fixture = await readFixture<CompoundsFixture>(dir, COMPOUNDS_FILE);
+        const recorded = fixture[kind] ?? {};
+        return new Map(
+          values
+            .filter((value) => recorded[value]?.length)
+            .map((value) => [value, recorded[value]])
+        );
+      },
+    },
+    associations: {
+      async fetchRelease() {
+        const fixture = await readFixture<OpenTargetsFixture>(dir, OPENTARGETS_FILE);
+        return fixture.release ?? DEFAULT_FIXTURE_RELEASE;
+      },
+      async fetchAssociationScores(indicationId, targetEnsemblIds) {
+        const fixture = await readFixture<OpenTargetsFixture>(dir, OPENTARGETS_FILE);
+        const recorded = fixture.associations?.[indicationId] ?? {};
+        return new Map(
+          targetEnsemblIds.map((targetId) => [targetId, recorded[targetId] ?? null])
+        );
+      },
+    },
+  };
+}
+
+// Passes calls through to `upstream` and merges every response into the
+// fixture files, so a session against the live APIs can be replayed offline.
+export function createRecordingProviders(
+  upstream: DataProviders,
+  dir: string
+): DataProviders {
+  // Serialises read-modify-write cycles on the fixture files.
+  let pending: Promise<unknown> = Promise.resolve();
+  const record = (update: () => Promise<void>) => {
+    pending = pending.then(update).catch((error) => {
+      console.error("providers.record.failed", error);
+    });
+    return pending;
+  };
+
+  return {
+    name: `record:${upstream.name}`,
+    genes: {
+      async lookupSymbols(symbols) {
+        const resolved = await upstream.genes.lookupSymbols(symbols);
+        await record(async () => {
+          const fixture = await readFixture<EnsemblFixture>(dir, ENSEMBL_FILE);
+          const matches = Array.from(resolved.matches);
+          await writeFixture(dir, ENSEMBL_FILE, {
+            ...fixture,
+            symbols: {
+              ...fixture.symbols,
+              ...Object.fromEntries(
+                matches
+                  .filter(([, match]) => !match.synonym)
+                  .map(([symbol, match]) => [symbol, match.ids[0]])
+              ),
+            },
+            synonyms: {
+              ...fixture.synonyms,
+              ...Object.fromEntries(
+                matches
+                  .filter(([, match]) => match.synonym)
+                  .map(([symbol, match]) => [symbol, match.ids])
+              ),
+            },
+          });
+        });
+        return resolved;
+      },
+    },
+    proteins: {
+      async fetchEntries(accessions) {
+        const entries = await upstream.proteins.fetchEntries(accessions);
+        await record(async () => {
+          const fixture = await readFixture<UniProtFixture>(dir, UNIPROT_FILE);
+          await writeFixture(dir, UNIPROT_FILE, {
+            ...fixture,
+            entries: { ...fixture.entries, ...Object.fromEntries(entries) },
+          });
+        });
+        return entries;
+      },
+    },
+    compounds: {
+      async lookup(kind, values) {
+        const matches = await upstream.compounds.lookup(kind, values);
+        await record(async () => {
+          const fixture = await readFixture<CompoundsFixture>(dir, COMPOUNDS_FILE);
+          await writeFixture(dir, COMPOUNDS_FILE, {
+            ...fixture,
+            [kind]: { ...fixture[kind], ...Object.fromEntries(matches) },
+          });
+        });
+        return matches;
+      },
+    },
+    associations: {
+      async fetchRelease() {
+        const release = await upstream.associations.fetchRelease();
+        await record(async () => {
+          const fixture = await readFixture<OpenTargetsFixture>(dir, OPENTARGETS_FILE);
+          await writeFixture(dir, OPENTARGETS_FILE, { ...fixture, release });
+        });
+        return release;
+      },
+      async fetchAssociationScores(indicationId, targetEnsemblIds) {
+        const scores = await upstream.associations.fetchAssociationScores(
+          indicationId,
+          targetEnsemblIds
+        );
+        await record(async () => {
+          const fixture = await readFixture<OpenTargetsFixture>(dir, OPENTARGETS_FILE);
+          const associations = fixture.associations ?? {};
+          // Only real associations are stored; absence already means null.
+          const found = Array.from(scores).filter(([, score]) => score != null);
+          await writeFixture(dir, OPENTARGETS_FILE, {
+            ...fixture,
+            associations: {
+              ...associations,
+              [indicationId]: {
+                ...associations[indicationId],
+                ...Object.fromEntries(found),
+              },
+            },
+          });
+        });
+        return scores;
+      },
+    },
+  };
+}
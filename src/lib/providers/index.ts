@@ -0,0 +1,51 @@
+import path from "path";
+import { createFixtureProviders, createRecordingProviders } from "@/lib/providers/fixture";
+import { createLiveProviders } from "@/lib/providers/live";
+import type { DataProviders } from "@/lib/providers/types";
+
+export type {
+  AssociationProvider,
+  CompoundCandidate,
+  CompoundIdentifierKind,
+  CompoundProvider,
+  DataProviders,
+  GeneLookup,
+  GeneMatch,
+  GeneProvider,
+  ProteinEntry,
+  ProteinProvider,
+} from "@/lib/providers/types";
+
+const DEFAULT_FIXTURE_DIR = "fixtures/providers";
+
+let providers: DataProviders | null = null;
+
+// DATA_PROVIDER=live (default) | fixture | record. Fixtures live under
+// DATA_PROVIDER_FIXTURES, relative to the project root.
+export function getProviders() {
+  if (providers) {
+    return providers;
+  }
+
+  const mode = (process.env.DATA_PROVIDER ?? "live").trim().toLowerCase();
+  const fixtureDir = path.resolve(
+    process.cwd(),
+    process.env.DATA_PROVIDER_FIXTURES || DEFAULT_FIXTURE_DIR
+  );
+
+  switch (mode) {
+    case "fixture":
+      providers = createFixtureProviders(fixtureDir);
+      break;
+    case "record":
+      providers = createRecordingProviders(createLiveProviders(), fixtureDir);
+      break;
+    case "live":
+      providers = createLiveProviders();
+      break;
+    default:
+      throw new Error(`Unknown DATA_PROVIDER: ${mode}`);
+  }
+
+  return providers;
+}
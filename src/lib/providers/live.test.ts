@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createLiveProviders } from "@/lib/providers/live";
+
+const fetchMock = vi.fn<(url: string, options: RequestInit) => Promise<Response>>();
+
+vi.mock("@/lib/http", () => ({
+  getHttpClient: () => ({ fetch: fetchMock }),
+}));
+
+function json(value: unknown, status = 200) {
+  return new Response(JSON.stringify(value), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+describe("live Ensembl genes", () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("keeps resolved symbols when one synonym lookup fails", async () => {
+    fetchMock.mockImplementation(async (url) => {
+      if (url.includes("/lookup/symbol/")) {
+        return json({ EGFR: { id: "ENSG00000146648", display_name: "EGFR" } });
+      }
+      if (url.includes("/ERBB?")) {
+        return json([{ id: "ENSG00000146648", type: "gene" }]);
+      }
+      throw new Error("timeout");
+    });
+
+    const { matches, lookupFailed } = await createLiveProviders().genes.lookupSymbols([
+      "EGFR",
+      "ERBB",
+      "BROKEN",
+    ]);
+
+    expect(matches.get("EGFR")).toEqual({ ids: ["ENSG00000146648"], synonym: false });
+    expect(matches.get("ERBB")).toEqual({ ids: ["ENSG00000146648"], synonym: true });
+    expect(matches.has("BROKEN")).toBe(false);
+    expect(Array.from(lookupFailed)).toEqual(["BROKEN"]);
+  });
+
+  it("fails the batch when the symbol lookup itself fails", async () => {
+    fetchMock.mockResolvedValue(json({}, 503));
+
+    await expect(
+      createLiveProviders().genes.lookupSymbols(["EGFR"])
+    ).rejects.toThrow("Ensembl error: 503");
+  });
+});
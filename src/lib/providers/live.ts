@@ -0,0 +1,440 @@
+import { getHttpClient } from "@/lib/http";
+import { chunk } from "@/lib/runs";
+import type {
+  AssociationProvider,
+  CompoundCandidate,
+  CompoundProvider,
+  DataProviders,
+  GeneMatch,
+  GeneProvider,
+  ProteinEntry,
+  ProteinProvider,
+} from "@/lib/providers/types";
+
+const DEFAULT_ENSEMBL_LOOKUP_URL =
+  "https://rest.ensembl.org/lookup/symbol/homo_sapiens";
+const DEFAULT_OPENTARGETS_GRAPHQL_URL =
+  "https://api.platform.opentargets.org/api/v4/graphql";
+const DEFAULT_ENSEMBL_XREFS_URL =
+  "https://rest.ensembl.org/xrefs/symbol/homo_sapiens";
+const DEFAULT_UNIPROT_ACCESSIONS_URL =
+  "https://rest.uniprot.org/uniprotkb/accessions";
+const DEFAULT_PUBCHEM_PUG_URL = "https://pubchem.ncbi.nlm.nih.gov/rest/pug";
+const DEFAULT_CHEMBL_API_URL = "https://www.ebi.ac.uk/chembl/api/data";
+const OPENTARGETS_TARGET_CHUNK_SIZE = 200;
+const PUBCHEM_CID_CHUNK_SIZE = 100;
+const CHEMBL_ID_CHUNK_SIZE = 50;
+const UNIPROT_ACCESSION_CHUNK_SIZE = 100;
+const MAX_SYNONYM_LOOKUPS = 50;
+
+function createEnsemblGenes(lookupUrl: string, xrefsUrl: string): GeneProvider {
+  // Ensembl REST allows roughly 15 requests per second per client.
+  const http = getHttpClient("ensembl", { concurrency: 2, timeoutMs: 10000 });
+
+  // Previous symbols and synonyms are only reachable through the xrefs
+  // endpoint, one request per symbol.
+  const lookupSynonym = async (symbol: string) => {
+    const response = await http.fetch(
+      `${xrefsUrl}/${encodeURIComponent(symbol)}?object_type=gene`,
+      { headers: { Accept: "application/json" } }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Ensembl error: ${response.status}`);
+    }
+
+    const payload = (await response.json()) as Array<{
+      id?: string | null;
+      type?: string | null;
+    }>;
+    return Array.from(
+      new Set(
+        (Array.isArray(payload) ? payload : [])
+          .filter((entry) => entry?.type === "gene" && entry.id)
+          .map((entry) => entry.id as string)
+      )
+    );
+  };
+
+  return {
+    async lookupSymbols(symbols) {
+      const resolved = new Map<string, GeneMatch>();
+      const lookupFailed = new Set<string>();
+      if (symbols.length === 0) {
+        return { matches: resolved, lookupFailed };
+      }
+
+      const response = await http.fetch(lookupUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json",
+        },
+        body: JSON.stringify({ symbols }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Ensembl error: ${response.status}`);
+      }
+
+      const payload = (await response.json()) as Record<
+        string,
+        { id?: string | null; display_name?: string | null }
+      >;
+
+      const missing: string[] = [];
+      for (const symbol of symbols) {
+        const entry = payload?.[symbol];
+        if (entry?.id) {
+          resolved.set(symbol, {
+            ids: [entry.id],
+            synonym: Boolean(
+              entry.display_name &&
+                entry.display_name.toUpperCase() !== symbol.toUpperCase()
+            ),
+          });
+        } else {
+          missing.push(symbol);
+        }
+      }
+
+      // A failed synonym lookup only fails its own symbol.
+      await Promise.all(
+        missing.slice(0, MAX_SYNONYM_LOOKUPS).map(async (symbol) => {
+          try {
+            const ids = await lookupSynonym(symbol);
+            if (ids.length > 0) {
+              resolved.set(symbol, { ids, synonym: true });
+            }
+          } catch (error) {
+            console.error("ensembl.synonym.failed", { symbol, error });
+            lookupFailed.add(symbol);
+          }
+        })
+      );
+
+      return { matches: resolved, lookupFailed };
+    },
+  };
+}
+
+type UniProtEntryPayload = {
+  primaryAccession?: string;
+  secondaryAccessions?: string[];
+  entryAudit?: { entryVersion?: number; sequenceVersion?: number };
+  sequence?: { value?: string };
+  genes?: Array<{ geneName?: { value?: string } }>;
+  uniProtKBCrossReferences?: Array<{
+    database?: string;
+    properties?: Array<{ key?: string; value?: string }>;
+  }>;
+};
+
+function createUniProtProteins(accessionsUrl: string): ProteinProvider {
+  const http = getHttpClient("uniprot", { concurrency: 2, timeoutMs: 15000 });
+
+  const toEntry = (payload: UniProtEntryPayload): ProteinEntry | null => {
+    if (!payload.primaryAccession || !payload.sequence?.value) {
+      return null;
+    }
+    const ensemblGeneIds = new Set<string>();
+    for (const reference of payload.uniProtKBCrossReferences ?? []) {
+      if (reference.database !== "Ensembl") {
+        continue;
+      }
+      const geneId = reference.properties?.find((p) => p.key === "GeneId")?.value;
+      if (geneId) {
+        ensemblGeneIds.add(geneId.split(".")[0]);
+      }
+    }
+    return {
+      accession: payload.primaryAccession,
+      sequence: payload.sequence.value,
+      entryVersion: payload.entryAudit?.entryVersion ?? null,
+      sequenceVersion: payload.entryAudit?.sequenceVersion ?? null,
+      geneSymbol: payload.genes?.[0]?.geneName?.value ?? null,
+      ensemblGeneIds: Array.from(ensemblGeneIds),
+    };
+  };
+
+  return {
+    async fetchEntries(accessions) {
+      const entries = new Map<string, ProteinEntry>();
+
+      for (const batch of chunk(accessions, UNIPROT_ACCESSION_CHUNK_SIZE)) {
+        const query = new URLSearchParams({
+          accessions: batch.join(","),
+          format: "json",
+        });
+        const response = await http.fetch(`${accessionsUrl}?${query}`, {
+          headers: { Accept: "application/json" },
+        });
+
+        if (!response.ok) {
+          throw new Error(`UniProt error: ${response.status}`);
+        }
+
+        const payload = (await response.json()) as {
+          results?: UniProtEntryPayload[];
+        };
+
+        // Merged entries come back under their new primary accession.
+        const requested = new Set(batch);
+        for (const result of payload.results ?? []) {
+          const entry = toEntry(result);
+          if (!entry) {
+            continue;
+          }
+          [result.primaryAccession, ...(result.secondaryAccessions ?? [])]
+            .filter((accession): accession is string =>
+              Boolean(accession && requested.has(accession))
+            )
+            .forEach((accession) => entries.set(accession, entry));
+        }
+      }
+
+      return entries;
+    },
+  };
+}
+
+function createCompoundLookup(pugUrl: string, chemblUrl: string): CompoundProvider {
+  // PubChem asks for no more than five requests per second.
+  const pubchem = getHttpClient("pubchem", { concurrency: 2, timeoutMs: 15000 });
+  const chembl = getHttpClient("chembl", { concurrency: 2, timeoutMs: 15000 });
+
+  // PubChem answers 404 when nothing matches the identifier.
+  const pubchemProperties = async (path: string, init: RequestInit = {}) => {
+    const response = await pubchem.fetch(
+      `${pugUrl}/compound/${path}/property/IsomericSMILES/JSON`,
+      { ...init, headers: { Accept: "application/json", ...init.headers } }
+    );
+
+    if (response.status === 404) {
+      return [];
+    }
+    if (!response.ok) {
+      throw new Error(`PubChem error: ${response.status}`);
+    }
+
+    const payload = (await response.json()) as {
+      PropertyTable?: {
+        Properties?: Array<{
+          CID?: number;
+          SMILES?: string;
+          IsomericSMILES?: string;
+        }>;
+      };
+    };
+    return (payload.PropertyTable?.Properties ?? []).flatMap((row) => {
+      const smiles = row.SMILES ?? row.IsomericSMILES;
+      return row.CID && smiles
+        ? [{ cid: String(row.CID), smiles, source: `pubchem:cid:${row.CID}` }]
+        : [];
+    });
+  };
+
+  const lookupCids = async (cids: string[]) => {
+    const result = new Map<string, CompoundCandidate[]>();
+    for (const batch of chunk(cids, PUBCHEM_CID_CHUNK_SIZE)) {
+      for (const row of await pubchemProperties(`cid/${batch.join(",")}`)) {
+        result.set(row.cid, [{ smiles: row.smiles, source: row.source }]);
+      }
+    }
+    return result;
+  };
+
+  // InChIKeys and names go one per request; both can match several CIDs.
+  const lookupEach = async (
+    values: string[],
+    request: (value: string) => Promise<CompoundCandidate[]>
+  ) => {
+    const result = new Map<string, CompoundCandidate[]>();
+    await Promise.all(
+      values.map(async (value) => {
+        const candidates = await request(value);
+        if (candidates.length > 0) {
+          result.set(value, candidates);
+        }
+      })
+    );
+    return result;
+  };
+
+  const lookupChembl = async (ids: string[]) => {
+    const result = new Map<string, CompoundCandidate[]>();
+    for (const batch of chunk(ids, CHEMBL_ID_CHUNK_SIZE)) {
+      const query = new URLSearchParams({
+        molecule_chembl_id__in: batch.join(","),
+        only: "molecule_chembl_id,molecule_structures",
+        limit: String(batch.length),
+      });
+      const response = await chembl.fetch(`${chemblUrl}/molecule.json?${query}`, {
+        headers: { Accept: "application/json" },
+      });
+
+      if (!response.ok) {
+        throw new Error(`ChEMBL error: ${response.status}`);
+      }
+
+      const payload = (await response.json()) as {
+        molecules?: Array<{
+          molecule_chembl_id?: string;
+          molecule_structures?: { canonical_smiles?: string | null } | null;
+        }>;
+      };
+      for (const molecule of payload.molecules ?? []) {
+        const smiles = molecule.molecule_structures?.canonical_smiles;
+        if (molecule.molecule_chembl_id && smiles) {
+          result.set(molecule.molecule_chembl_id, [
+            { smiles, source: `chembl:${molecule.molecule_chembl_id}` },
+          ]);
+        }
+      }
+    }
+    return result;
+  };
+
+  return {
+    async lookup(kind, values) {
+      switch (kind) {
+        case "pubchem_cid":
+          return lookupCids(values);
+        case "chembl_id":
+          return lookupChembl(values);
+        case "inchikey":
+          return lookupEach(values, async (key) =>
+            (await pubchemProperties(`inchikey/${key}`)).map(({ smiles, source }) => ({
+              smiles,
+              source,
+            }))
+          );
+        case "name":
+          // Names go in a POST body so slashes and other symbols survive.
+          return lookupEach(values, async (name) =>
+            (
+              await pubchemProperties("name", {
+                method: "POST",
+                headers: { "Content-Type": "application/x-www-form-urlencoded" },
+                body: new URLSearchParams({ name }).toString(),
+              })
+            ).map(({ smiles, source }) => ({ smiles, source }))
+          );
+      }
+    },
+  };
+}
+
+function createOpenTargetsAssociations(graphqlUrl: string): AssociationProvider {
+  const http = getHttpClient("opentargets", { concurrency: 4, timeoutMs: 12000 });
+
+  const postGraphql = async <T>(
+    query: string,
+    variables: Record<string, unknown>
+  ) => {
+    const response = await http.fetch(graphqlUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json",
+      },
+      body: JSON.stringify({ query, variables }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenTargets error: ${response.status}`);
+    }
+
+    const payload = (await response.json()) as {
+      errors?: Array<{ message?: string }>;
+      data?: T;
+    };
+
+    if (payload.errors?.length) {
+      throw new Error(
+        `OpenTargets error: ${payload.errors[0]?.message ?? "unknown"}`
+      );
+    }
+
+    return payload.data;
+  };
+
+  return {
+    // Release tag such as `25.03`, from the platform's own metadata.
+    async fetchRelease() {
+      const data = await postGraphql<{
+        meta?: {
+          dataVersion?: { year?: string | null; month?: string | null } | null;
+        };
+      }>("query Release { meta { dataVersion { year month } } }", {});
+
+      const version = data?.meta?.dataVersion;
+      if (!version?.year || !version?.month) {
+        throw new Error("OpenTargets release is missing");
+      }
+      return `${version.year}.${version.month.padStart(2, "0")}`;
+    },
+
+    // Asks for just the requested targets (`Bs`) instead of paging through
+    // every target associated with the disease.
+    async fetchAssociationScores(indicationId, targetEnsemblIds) {
+      const scores = new Map<string, number | null>();
+
+      for (const batch of chunk(targetEnsemblIds, OPENTARGETS_TARGET_CHUNK_SIZE)) {
+        const data = await postGraphql<{
+          disease?: {
+            associatedTargets?: {
+              rows?: Array<{
+                score?: number | null;
+                target?: { id?: string | null };
+              }>;
+            };
+          };
+        }>(
+          `
+            query TargetAssociations($diseaseId: String!, $targetIds: [String!], $size: Int!) {
+              disease(efoId: $diseaseId) {
+                associatedTargets(Bs: $targetIds, page: { size: $size, index: 0 }) {
+                  rows {
+                    score
+                    target { id }
+                  }
+                }
+              }
+            }
+          `,
+          { diseaseId: indicationId, targetIds: batch, size: batch.length }
+        );
+
+        batch.forEach((targetId) => scores.set(targetId, null));
+        for (const row of data?.disease?.associatedTargets?.rows ?? []) {
+          if (row?.target?.id) {
+            scores.set(row.target.id, row.score ?? null);
+          }
+        }
+      }
+
+      return scores;
+    },
+  };
+}
+
+export function createLiveProviders(): DataProviders {
+  return {
+    name: "live",
+    genes: createEnsemblGenes(
+      process.env.ENSEMBL_LOOKUP_URL || DEFAULT_ENSEMBL_LOOKUP_URL,
+      process.env.ENSEMBL_XREFS_URL || DEFAULT_ENSEMBL_XREFS_URL
+    ),
+    proteins: createUniProtProteins(
+      process.env.UNIPROT_ACCESSIONS_URL || DEFAULT_UNIPROT_ACCESSIONS_URL
+    ),
+    compounds: createCompoundLookup(
+      process.env.PUBCHEM_PUG_URL || DEFAULT_PUBCHEM_PUG_URL,
+      process.env.CHEMBL_API_URL || DEFAULT_CHEMBL_API_URL
+    ),
+    associations: createOpenTargetsAssociations(
+      process.env.OPENTARGETS_GRAPHQL_URL || DEFAULT_OPENTARGETS_GRAPHQL_URL
+    ),
+  };
+}
@@ -0,0 +1,71 @@
+// External data sources behind /api/runs. `live` talks to Ensembl, UniProt,
+// PubChem, ChEMBL and OpenTargets; `fixture` serves recorded responses from
+// disk.
+export type GeneMatch = {
+  // Every Ensembl gene ID the symbol maps to; more than one is ambiguous.
+  ids: string[];
+  // True when the symbol is only known as a previous symbol or synonym.
+  synonym: boolean;
+};
+
+export type GeneLookup = {
+  // Unknown symbols are left out.
+  matches: Map<string, GeneMatch>;
+  // Symbols that could not be looked up at all; the rest of the batch stands.
+  lookupFailed: Set<string>;
+};
+
+export type GeneProvider = {
+  // Maps HGNC symbols to Ensembl genes. Throws when the batch as a whole
+  // could not be looked up.
+  lookupSymbols(symbols: string[]): Promise<GeneLookup>;
+};
+
+export type ProteinEntry = {
+  accession: string;
+  sequence: string;
+  // UniProtKB entry/sequence versions, recorded on runs for reproducibility.
+  entryVersion: number | null;
+  sequenceVersion: number | null;
+  geneSymbol: string | null;
+  ensemblGeneIds: string[];
+};
+
+export type ProteinProvider = {
+  // Keyed by the requested accession, which may be a secondary accession of
+  // the returned entry; unknown accessions are left out.
+  fetchEntries(accessions: string[]): Promise<Map<string, ProteinEntry>>;
+};
+
+export type CompoundIdentifierKind = "pubchem_cid" | "chembl_id" | "inchikey" | "name";
+
+export type CompoundCandidate = {
+  smiles: string;
+  // Where the structure came from, e.g. `pubchem:cid:2244` or `chembl:CHEMBL25`.
+  source: string;
+};
+
+export type CompoundProvider = {
+  // Every structure an identifier resolves to; unknown identifiers are left out.
+  lookup(
+    kind: CompoundIdentifierKind,
+    values: string[]
+  ): Promise<Map<string, CompoundCandidate[]>>;
+};
+
+export type AssociationProvider = {
+  fetchRelease(): Promise<string>;
+  // Every requested target is present in the result; null means no association.
+  fetchAssociationScores(
+    indicationId: string,
+    targetEnsemblIds: string[]
+  ): Promise<Map<string, number | null>>;
+};
+
+export type DataProviders = {
+  name: string;
+  genes: GeneProvider;
+  proteins: ProteinProvider;
+  compounds: CompoundProvider;
+  associations: AssociationProvider;
+};
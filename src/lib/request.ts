@@ -0,0 +1,8 @@
+export async function readJsonBody(request: Request) {
+  try {
+    const body = await request.json();
+    return body && typeof body === "object" ? (body as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
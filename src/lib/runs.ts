@@ -0,0 +1,171 @@
+import crypto from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { normalizeSequence, type SequenceResult } from "@/lib/sequence";
+import { canonicalizeSmiles } from "@/lib/smiles";
+import { normalizeUniprotAccession } from "@/lib/uniprot";
+import {
+  WARNING_INVALID_SMILES,
+  WARNING_INVALID_STRUCTURE,
+  WARNING_SEQUENCE_INVALID_CHARACTERS,
+  WARNING_SEQUENCE_MISSING,
+  WARNING_SEQUENCE_NONCANONICAL,
+  WARNING_SEQUENCE_NUCLEOTIDE,
+  WARNING_SEQUENCE_TOO_LONG,
+} from "@/lib/warnings";
+
+export type LigandInput = {
+  smiles: string;
+  smilesCanon: string | null;
+  ligandName: string;
+  structureError: string | null;
+  // `smiles`, `sdf` or the provider source of a resolved identifier.
+  source: string | null;
+  // `kind:value` when the structure was looked up from an identifier.
+  identifier: string | null;
+  identifierWarning: string | null;
+};
+
+export type TargetInput = SequenceResult & {
+  geneName: string;
+  uniprotAccession: string | null;
+  // The accession is only the name's shape (HGNC symbols such as H2BC12 look
+  // like accessions too) and counts once UniProt returns an entry for it.
+  accessionFromName: boolean;
+};
+
+export type DoneRun = {
+  input_hash: string;
+  affinity_value: number | null;
+  affinity_prob: number | null;
+};
+
+export const MAX_SEQUENCE_LENGTH = 1280;
+
+export function chunk<T>(items: T[], size: number) {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    result.push(items.slice(i, i + size));
+  }
+  return result;
+}
+
+export function ligandFromSmiles(smiles: string, ligandName: string): LigandInput {
+  const trimmed = smiles.trim();
+  const parsed = trimmed ? canonicalizeSmiles(trimmed) : null;
+  return {
+    smiles: trimmed,
+    smilesCanon: parsed?.ok ? parsed.canonical : null,
+    ligandName: ligandName.trim(),
+    structureError: null,
+    source: trimmed ? "smiles" : null,
+    identifier: null,
+    identifierWarning: null,
+  };
+}
+
+// The accession comes from a `uniprot` column, or from the name itself when
+// the name looks like an accession; see applyUniprotEntry.
+export function targetFromSequence(
+  sequence: string,
+  geneName: string,
+  uniprot = ""
+): TargetInput {
+  const accession = normalizeUniprotAccession(uniprot);
+  const nameAccession = accession ? null : normalizeUniprotAccession(geneName);
+  return {
+    ...normalizeSequence(sequence),
+    geneName: geneName.trim(),
+    uniprotAccession: accession ?? nameAccession,
+    accessionFromName: Boolean(nameAccession),
+  };
+}
+
+export function validatePair(ligand: LigandInput, target: TargetInput) {
+  const warnings: string[] = [];
+
+  if (ligand.structureError) {
+    warnings.push(WARNING_INVALID_STRUCTURE);
+  } else if (ligand.identifierWarning) {
+    warnings.push(ligand.identifierWarning);
+  } else if (!ligand.smilesCanon) {
+    warnings.push(WARNING_INVALID_SMILES);
+  }
+
+  if (!target.sequence) {
+    warnings.push(WARNING_SEQUENCE_MISSING);
+  } else {
+    if (target.invalidCharacters) {
+      warnings.push(WARNING_SEQUENCE_INVALID_CHARACTERS);
+    }
+    if (target.noncanonicalResidues) {
+      warnings.push(WARNING_SEQUENCE_NONCANONICAL);
+    }
+    if (target.nucleotideLike) {
+      warnings.push(WARNING_SEQUENCE_NUCLEOTIDE);
+    }
+    if (target.sequence.length > MAX_SEQUENCE_LENGTH) {
+      warnings.push(WARNING_SEQUENCE_TOO_LONG);
+    }
+  }
+
+  return warnings;
+}
+
+export function inputHashFor(
+  smilesCanon: string | null,
+  sequence: string,
+  modelVersion: string
+) {
+  if (!smilesCanon || !sequence) {
+    return null;
+  }
+  return crypto
+    .createHash("sha256")
+    .update(`${smilesCanon}|${sequence}|${modelVersion}`)
+    .digest("hex");
+}
+
+// Returns null when the lookup fails so callers can surface their own error.
+export async function fetchDoneByHash(supabase: SupabaseClient, hashes: string[]) {
+  const doneByHash = new Map<string, DoneRun>();
+
+  for (const batch of chunk(Array.from(new Set(hashes)), 200)) {
+    const { data, error } = await supabase
+      .from("runs")
+      .select("input_hash, affinity_value, affinity_prob")
+      .eq("status", "done")
+      .in("input_hash", batch);
+
+    if (error) {
+      return null;
+    }
+
+    (data ?? []).forEach((row) => {
+      if (row.input_hash) {
+        doneByHash.set(row.input_hash, row as DoneRun);
+      }
+    });
+  }
+
+  return doneByHash;
+}
+
+export type RunSelection = { runIds: string[] } | { batchId: string };
+
+const MAX_SELECTED_RUN_IDS = 200;
+
+// Run actions take either explicit `run_ids` or a whole `batch_id`.
+export function readRunSelection(body: Record<string, unknown>): RunSelection | null {
+  if (typeof body.batch_id === "string" && body.batch_id.trim()) {
+    return { batchId: body.batch_id.trim() };
+  }
+  if (Array.isArray(body.run_ids)) {
+    const runIds = body.run_ids.filter(
+      (id): id is string => typeof id === "string" && Boolean(id.trim())
+    );
+    if (runIds.length > 0 && runIds.length <= MAX_SELECTED_RUN_IDS) {
+      return { runIds };
+    }
+  }
+  return null;
+}
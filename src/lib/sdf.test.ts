@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { parseSdf } from "@/lib/sdf";
+import { canonicalizeSmiles } from "@/lib/smiles";
+
+function atomLine(x: number, y: number, element: string, charge = 0) {
+  const fixed = (value: number) => value.toFixed(4).padStart(10);
+  return `${fixed(x)}${fixed(y)}${fixed(0)} ${element.padEnd(3)} 0${String(charge).padStart(3)}  0  0  0  0  0  0  0  0  0  0`;
+}
+
+function bondLine(a: number, b: number, order: number, stereo = 0) {
+  return `${String(a).padStart(3)}${String(b).padStart(3)}${String(order).padStart(3)}${String(stereo).padStart(3)}`;
+}
+
+function molBlock(
+  name: string,
+  atoms: string[],
+  bonds: string[],
+  fields: Record<string, string> = {}
+) {
+  return [
+    name,
+    "  test",
+    "",
+    `${String(atoms.length).padStart(3)}${String(bonds.length).padStart(3)}  0  0  0  0  0  0  0  0999 V2000`,
+    ...atoms,
+    ...bonds,
+    "M  END",
+    ...Object.entries(fields).flatMap(([key, value]) => [`>  <${key}>`, value, ""]),
+    "$$$$",
+  ].join("\n");
+}
+
+const ETHANOL = molBlock(
+  "ethanol",
+  [atomLine(0, 0, "C"), atomLine(1.5, 0, "C"), atomLine(2.25, 1.3, "O")],
+  [bondLine(1, 2, 1), bondLine(2, 3, 1)],
+  { ID: "L-1", Note: "first\nsecond" }
+);
+
+const ACETATE = molBlock(
+  "acetate",
+  [
+    atomLine(0, 0, "C"),
+    atomLine(1.5, 0, "C"),
+    atomLine(2.25, 1.3, "O"),
+    atomLine(2.25, -1.3, "O", 5),
+  ],
+  [bondLine(1, 2, 1), bondLine(2, 3, 2), bondLine(2, 4, 1)]
+);
+
+function canonical(smiles: string) {
+  const result = canonicalizeSmiles(smiles);
+  return result.ok ? result.canonical : result.error;
+}
+
+describe("parseSdf", () => {
+  it("converts records to canonical SMILES and reads data fields", () => {
+    const [ethanol, acetate] = parseSdf(`${ETHANOL}\n${ACETATE}\n`);
+
+    expect(ethanol).toEqual({
+      name: "ethanol",
+      fields: { ID: "L-1", Note: "first\nsecond" },
+      smiles: canonical("CCO"),
+      error: null,
+    });
+    expect(acetate.smiles).toBe(canonical("CC(=O)[O-]"));
+  });
+
+  it("fails a record with an unknown element without failing the file", () => {
+    const unknown = molBlock(
+      "query",
+      [atomLine(0, 0, "C"), atomLine(1.5, 0, "Xx")],
+      [bondLine(1, 2, 1)]
+    );
+    const records = parseSdf(`${unknown}\n${ETHANOL}`);
+
+    expect(records).toHaveLength(2);
+    expect(records[0].smiles).toBeNull();
+    expect(records[0].error).toMatch(/unknown element Xx/);
+    expect(records[1].smiles).toBe(canonical("CCO"));
+  });
+
+  it("fails truncated and V3000 records", () => {
+    const truncated = ETHANOL.split("\n").slice(0, 6).join("\n");
+    expect(parseSdf(truncated)[0].error).toBeTruthy();
+    expect(
+      parseSdf("v3\n\n\n  0  0  0     0  0            999 V3000\nM  END\n$$$$")[0].error
+    ).toMatch(/V3000/);
+  });
+});
@@ -0,0 +1,327 @@
+import {
+  canonicalizeMolecule,
+  isElementSymbol,
+  type Atom,
+  type Bond,
+  type Chirality,
+  type DoubleBondStereo,
+} from "@/lib/smiles";
+
+export type SdfRecord = {
+  name: string;
+  fields: Record<string, string>;
+  smiles: string | null;
+  error: string | null;
+};
+
+type Point = { x: number; y: number; z: number };
+
+const SDF_EXTENSIONS = [".sdf", ".sd", ".mol"];
+
+// Atom block charge codes: 1 = +3, 2 = +2, 3 = +1, 4 = radical, 5 = -1, ...
+const ATOM_BLOCK_CHARGES: Record<number, number> = {
+  1: 3,
+  2: 2,
+  3: 1,
+  5: -1,
+  6: -2,
+  7: -3,
+};
+
+const BOND_STEREO_UP = 1;
+const BOND_STEREO_DOWN = 6;
+const BOND_STEREO_EITHER = 3;
+
+export function isSdfFileName(name: string) {
+  const lowered = name.toLowerCase();
+  return SDF_EXTENSIONS.some((extension) => lowered.endsWith(extension));
+}
+
+function fail(message: string): never {
+  throw new Error(message);
+}
+
+function readInt(line: string, start: number, end: number) {
+  const value = Number.parseInt(line.slice(start, end).trim(), 10);
+  return Number.isNaN(value) ? 0 : value;
+}
+
+function subtract(left: Point, right: Point): Point {
+  return { x: left.x - right.x, y: left.y - right.y, z: left.z - right.z };
+}
+
+function cross(left: Point, right: Point): Point {
+  return {
+    x: left.y * right.z - left.z * right.y,
+    y: left.z * right.x - left.x * right.z,
+    z: left.x * right.y - left.y * right.x,
+  };
+}
+
+function dot(left: Point, right: Point) {
+  return left.x * right.x + left.y * right.y + left.z * right.z;
+}
+
+// Reads @/@@ off a 2D depiction: wedged neighbours are lifted out of the
+// plane and the signed volume of the first four neighbours gives the sense.
+function chiralityFromWedges(
+  center: number,
+  neighbors: number[],
+  points: Point[],
+  lift: Map<number, number>
+): Chirality | null {
+  if (neighbors.length < 3 || neighbors.length > 4 || lift.size === 0) {
+    return null;
+  }
+  const origin = points[center];
+  const vectors = neighbors.map((neighbor) => {
+    const flat = subtract(points[neighbor], origin);
+    const length = Math.hypot(flat.x, flat.y) || 1;
+    return {
+      x: flat.x / length,
+      y: flat.y / length,
+      z: lift.get(neighbor) ?? 0,
+    };
+  });
+  if (vectors.length === 3) {
+    vectors.push({
+      x: -(vectors[0].x + vectors[1].x + vectors[2].x),
+      y: -(vectors[0].y + vectors[1].y + vectors[2].y),
+      z: -(vectors[0].z + vectors[1].z + vectors[2].z),
+    });
+  }
+  const [a, b, c, d] = vectors;
+  const volume = dot(subtract(b, a), cross(subtract(c, a), subtract(d, a)));
+  if (Math.abs(volume) < 1e-3) {
+    return null;
+  }
+  return volume < 0 ? "@" : "@@";
+}
+
+function parseMolBlock(lines: string[]) {
+  if (lines.length < 4) {
+    fail("record is too short");
+  }
+  const counts = lines[3];
+  if (counts.includes("V3000")) {
+    fail("V3000 molfiles are not supported");
+  }
+  const atomCount = readInt(counts, 0, 3);
+  const bondCount = readInt(counts, 3, 6);
+  if (atomCount === 0) {
+    fail("record has no atoms");
+  }
+  if (lines.length < 4 + atomCount + bondCount) {
+    fail("connection table is truncated");
+  }
+
+  const points: Point[] = [];
+  const atoms: Atom[] = [];
+  for (let i = 0; i < atomCount; i += 1) {
+    const line = lines[4 + i];
+    const element = line.slice(31, 34).trim();
+    if (!element) {
+      fail(`atom ${i + 1} has no element`);
+    }
+    // Query atoms (A, Q, *), R-groups (R#) and unknown symbols have no
+    // structure to predict on.
+    if (!isElementSymbol(element)) {
+      fail(`atom ${i + 1} has unknown element ${element}`);
+    }
+    points.push({
+      x: Number.parseFloat(line.slice(0, 10)),
+      y: Number.parseFloat(line.slice(10, 20)),
+      z: 0,
+    });
+    atoms.push({
+      element,
+      aromatic: false,
+      bracket: false,
+      isotope: null,
+      charge: ATOM_BLOCK_CHARGES[readInt(line, 36, 39)] ?? 0,
+      hydrogens: 0,
+      chirality: null,
+      atomClass: null,
+      order: [],
+    });
+  }
+
+  const bonds: Bond[] = [];
+  const lifts = atoms.map(() => new Map<number, number>());
+  const eitherBonds = new Set<number>();
+  for (let i = 0; i < bondCount; i += 1) {
+    const line = lines[4 + atomCount + i];
+    const a = readInt(line, 0, 3) - 1;
+    const b = readInt(line, 3, 6) - 1;
+    const type = readInt(line, 6, 9);
+    const stereo = readInt(line, 9, 12);
+    if (!atoms[a] || !atoms[b] || a === b) {
+      fail(`bond ${i + 1} references a missing atom`);
+    }
+    if (type < 1 || type > 4) {
+      fail(`bond ${i + 1} has unsupported type ${type}`);
+    }
+    if (type === 4) {
+      atoms[a].aromatic = true;
+      atoms[b].aromatic = true;
+    }
+    if (stereo === BOND_STEREO_UP || stereo === BOND_STEREO_DOWN) {
+      lifts[a].set(b, stereo === BOND_STEREO_UP ? 1 : -1);
+    }
+    if (stereo === BOND_STEREO_EITHER) {
+      eitherBonds.add(bonds.length);
+    }
+    bonds.push({
+      a,
+      b,
+      order: type === 4 ? 1 : type,
+      aromatic: type === 4,
+      up: null,
+    });
+    atoms[a].order.push(b);
+    atoms[b].order.push(a);
+  }
+
+  let propertyCharges = false;
+  for (const line of lines.slice(4 + atomCount + bondCount)) {
+    if (line.startsWith("M  END")) {
+      break;
+    }
+    const isCharge = line.startsWith("M  CHG");
+    const isIsotope = line.startsWith("M  ISO");
+    if (!isCharge && !isIsotope) {
+      continue;
+    }
+    if (isCharge && !propertyCharges) {
+      // Any M  CHG line supersedes every charge given in the atom block.
+      atoms.forEach((atom) => {
+        atom.charge = 0;
+      });
+      propertyCharges = true;
+    }
+    const entries = readInt(line, 6, 9);
+    for (let i = 0; i < entries; i += 1) {
+      const atom = atoms[readInt(line, 10 + i * 8, 13 + i * 8) - 1];
+      const value = readInt(line, 14 + i * 8, 17 + i * 8);
+      if (!atom) {
+        fail(`${line.slice(0, 6)} references a missing atom`);
+      }
+      if (isCharge) {
+        atom.charge = value;
+      } else {
+        atom.isotope = value;
+      }
+    }
+  }
+
+  atoms.forEach((atom, index) => {
+    const unsaturated = bonds.some(
+      (bond) => (bond.a === index || bond.b === index) && bond.order !== 1
+    );
+    // Sulfoxides and phosphine oxides stay tetrahedral despite their P=O/S=O.
+    if (unsaturated && atom.element !== "S" && atom.element !== "P") {
+      return;
+    }
+    atom.chirality = chiralityFromWedges(index, atom.order, points, lifts[index]);
+  });
+
+  const stereo: DoubleBondStereo[] = [];
+  bonds.forEach((bond, index) => {
+    if (bond.order !== 2 || eitherBonds.has(index)) {
+      return;
+    }
+    const leftRef = atoms[bond.a].order.find((other) => other !== bond.b);
+    const rightRef = atoms[bond.b].order.find((other) => other !== bond.a);
+    if (leftRef === undefined || rightRef === undefined) {
+      return;
+    }
+    const axis = subtract(points[bond.b], points[bond.a]);
+    const leftSide = cross(axis, subtract(points[leftRef], points[bond.a])).z;
+    const rightSide = cross(axis, subtract(points[rightRef], points[bond.b])).z;
+    if (Math.abs(leftSide) < 1e-6 || Math.abs(rightSide) < 1e-6) {
+      return;
+    }
+    stereo.push({
+      left: bond.a,
+      right: bond.b,
+      leftRef,
+      rightRef,
+      cis: (leftSide > 0) === (rightSide > 0),
+    });
+  });
+
+  return { atoms, bonds, stereo };
+}
+
+function parseDataFields(lines: string[]) {
+  const fields: Record<string, string> = {};
+  let current: string | null = null;
+  let value: string[] = [];
+
+  const flush = () => {
+    if (current !== null) {
+      fields[current] = value.join("\n").trim();
+    }
+    current = null;
+    value = [];
+  };
+
+  for (const line of lines) {
+    const header = /^>.*<([^>]+)>/.exec(line);
+    if (header) {
+      flush();
+      current = header[1].trim();
+    } else if (current !== null) {
+      if (line.trim() === "") {
+        flush();
+      } else {
+        value.push(line);
+      }
+    }
+  }
+  flush();
+
+  return fields;
+}
+
+export function parseSdf(text: string): SdfRecord[] {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/);
+  const blocks: string[][] = [];
+  let block: string[] = [];
+
+  for (const line of lines) {
+    if (line.startsWith("$$$$")) {
+      blocks.push(block);
+      block = [];
+    } else {
+      block.push(line);
+    }
+  }
+  if (block.some((line) => line.trim() !== "")) {
+    blocks.push(block);
+  }
+
+  return blocks.map((recordLines) => {
+    const end = recordLines.findIndex((line) => line.startsWith("M  END"));
+    const name = recordLines[0]?.trim() ?? "";
+    const fields = parseDataFields(end === -1 ? [] : recordLines.slice(end + 1));
+
+    try {
+      if (end === -1) {
+        fail("record has no M  END line");
+      }
+      const result = canonicalizeMolecule(parseMolBlock(recordLines.slice(0, end + 1)));
+      if (!result.ok) {
+        return { name, fields, smiles: null, error: result.error };
+      }
+      return { name, fields, smiles: result.canonical, error: null };
+    } catch (error) {
+      return {
+        name,
+        fields,
+        smiles: null,
+        error: error instanceof Error ? error.message : "invalid record",
+      };
+    }
+  });
+}
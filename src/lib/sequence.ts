@@ -0,0 +1,46 @@
+export type SequenceResult = {
+  sequence: string;
+  invalidCharacters: boolean;
+  noncanonicalResidues: boolean;
+  nucleotideLike: boolean;
+};
+
+const CANONICAL_RESIDUES = /^[ACDEFGHIKLMNPQRSTVWY]$/;
+const NONCANONICAL_RESIDUES = /^[BJOUXZ]$/;
+const NUCLEOTIDES = /^[ACGTUN]$/;
+const NUCLEOTIDE_MIN_LENGTH = 10;
+const NUCLEOTIDE_RATIO = 0.9;
+
+export function normalizeSequence(raw: string): SequenceResult {
+  // A single trailing stop codon is how translated sequences are usually written.
+  const sequence = raw.replace(/\s+/g, "").toUpperCase().replace(/\*$/, "");
+
+  let invalidCharacters = false;
+  let noncanonicalResidues = false;
+  let nucleotideCount = 0;
+
+  for (const residue of sequence) {
+    if (NUCLEOTIDES.test(residue)) {
+      nucleotideCount += 1;
+    }
+    if (CANONICAL_RESIDUES.test(residue)) {
+      continue;
+    }
+    if (NONCANONICAL_RESIDUES.test(residue)) {
+      noncanonicalResidues = true;
+    } else {
+      invalidCharacters = true;
+    }
+  }
+
+  const nucleotideLike =
+    sequence.length >= NUCLEOTIDE_MIN_LENGTH &&
+    nucleotideCount / sequence.length >= NUCLEOTIDE_RATIO;
+
+  return {
+    sequence,
+    invalidCharacters,
+    noncanonicalResidues,
+    nucleotideLike,
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { canonicalizeSmiles } from "@/lib/smiles";
+
+function canonical(input: string) {
+  const result = canonicalizeSmiles(input);
+  if (!result.ok) {
+    throw new Error(`${input}: ${result.error}`);
+  }
+  return result.canonical;
+}
+
+describe("canonicalizeSmiles", () => {
+  it("writes the same SMILES for different atom orders", () => {
+    expect(canonical("OCC")).toBe(canonical("C(C)O"));
+    expect(canonical("Oc1ccccc1")).toBe(canonical("c1ccc(O)cc1"));
+    expect(canonical("C1=CC=CC=C1")).toBe(canonical("c1ccccc1"));
+  });
+
+  it("keeps stereochemistry apart", () => {
+    expect(canonical("F/C=C/F")).not.toBe(canonical("F/C=C\\F"));
+    expect(canonical("N[C@@H](C)C(=O)O")).not.toBe(canonical("N[C@H](C)C(=O)O"));
+    expect(canonical("N[C@@H](C)C(=O)O")).toBe(canonical("C[C@H](N)C(=O)O"));
+  });
+
+  it("rejects invalid input", () => {
+    expect(canonicalizeSmiles("").ok).toBe(false);
+    expect(canonicalizeSmiles("C C").ok).toBe(false);
+    expect(canonicalizeSmiles("C1CC").ok).toBe(false);
+    expect(canonicalizeSmiles("C(C)(C)(C)(C)C").ok).toBe(false);
+    expect(canonicalizeSmiles("c1cccc1").ok).toBe(false);
+  });
+
+  // Tie-breaking between symmetric atoms used to let ranks grow until they
+  // lost precision, which never terminated past ~53 identical fragments.
+  it.each(["[Na+]", "O", "Cl", "CC"])(
+    "terminates for many identical fragments of %s",
+    (fragment) => {
+      for (const count of [53, 60, 200]) {
+        const result = canonical(Array(count).fill(fragment).join("."));
+        expect(result.split(".")).toHaveLength(count);
+      }
+    }
+  );
+
+  it("orders mixed fragments independently of input order", () => {
+    const fragments = Array.from({ length: 80 }, (_, index) =>
+      index % 3 === 0 ? "[Na+]" : index % 3 === 1 ? "[Cl-]" : "O"
+    );
+    expect(canonical(fragments.join("."))).toBe(
+      canonical([...fragments].reverse().join("."))
+    );
+  });
+
+  it("rejects molecules too large to walk", () => {
+    expect(canonicalizeSmiles("C".repeat(1000)).ok).toBe(true);
+    const result = canonicalizeSmiles("C".repeat(3000));
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error).toMatch(/heavy atoms/);
+  });
+});
@@ -0,0 +1,1350 @@
+export type SmilesResult =
+  | { ok: true; canonical: string }
+  | { ok: false; error: string };
+
+export type Chirality = "@" | "@@";
+
+export type Atom = {
+  element: string;
+  aromatic: boolean;
+  // Bracket atoms carry an explicit hydrogen count; the rest get the default.
+  bracket: boolean;
+  isotope: number | null;
+  charge: number;
+  hydrogens: number;
+  chirality: Chirality | null;
+  atomClass: number | null;
+  // Neighbours in the order they were written, used to interpret @/@@.
+  // HYDROGEN stands in for an implicit hydrogen or lone pair; when it is
+  // missing from a three-neighbour centre it is taken to come last.
+  order: number[];
+};
+
+export type Bond = {
+  a: number;
+  b: number;
+  order: number;
+  aromatic: boolean;
+  // Directional (/ \) bonds: true when atom b is drawn above atom a.
+  up: boolean | null;
+};
+
+export type DoubleBondStereo = {
+  left: number;
+  right: number;
+  leftRef: number;
+  rightRef: number;
+  cis: boolean;
+};
+
+export type Molecule = {
+  atoms: Atom[];
+  bonds: Bond[];
+  stereo: DoubleBondStereo[];
+};
+
+export const HYDROGEN = -1;
+const RING_PLACEHOLDER = -2;
+const MAX_RING_SIZE = 10;
+const MAX_RING_COUNT = 2000;
+const MAX_KEKULE_STEPS = 100000;
+// Ring perception and writing walk the molecule recursively; far larger
+// structures would overflow the stack and are not ligands anyway.
+const MAX_HEAVY_ATOMS = 1000;
+// Double bonds in smaller rings are always cis, so their stereo is dropped.
+const MIN_STEREO_RING_SIZE = 8;
+
+const ELEMENTS = [
+  "H", "He", "Li", "Be", "B", "C", "N", "O", "F", "Ne", "Na", "Mg", "Al",
+  "Si", "P", "S", "Cl", "Ar", "K", "Ca", "Sc", "Ti", "V", "Cr", "Mn", "Fe",
+  "Co", "Ni", "Cu", "Zn", "Ga", "Ge", "As", "Se", "Br", "Kr", "Rb", "Sr",
+  "Y", "Zr", "Nb", "Mo", "Tc", "Ru", "Rh", "Pd", "Ag", "Cd", "In", "Sn",
+  "Sb", "Te", "I", "Xe", "Cs", "Ba", "La", "Ce", "Pr", "Nd", "Pm", "Sm",
+  "Eu", "Gd", "Tb", "Dy", "Ho", "Er", "Tm", "Yb", "Lu", "Hf", "Ta", "W",
+  "Re", "Os", "Ir", "Pt", "Au", "Hg", "Tl", "Pb", "Bi", "Po", "At", "Rn",
+  "Fr", "Ra", "Ac", "Th", "Pa", "U", "Np", "Pu", "Am", "Cm", "Bk", "Cf",
+  "Es", "Fm", "Md", "No", "Lr", "Rf", "Db", "Sg", "Bh", "Hs", "Mt", "Ds",
+  "Rg", "Cn", "Nh", "Fl", "Mc", "Lv", "Ts", "Og",
+];
+
+const ATOMIC_NUMBER = new Map(
+  ELEMENTS.map((symbol, index) => [symbol, index + 1])
+);
+
+export function isElementSymbol(symbol: string) {
+  return ATOMIC_NUMBER.has(symbol);
+}
+
+// Allowed valences by atomic number for the main-group elements we can check.
+// Charged atoms are looked up by their isoelectronic neighbour (N+ as C, O- as F).
+const VALENCES = new Map<number, number[]>([
+  [1, [1]],
+  [5, [3]],
+  [6, [4]],
+  [7, [3]],
+  [8, [2]],
+  [9, [1]],
+  [10, [0]],
+  [14, [4]],
+  [15, [3, 5]],
+  [16, [2, 4, 6]],
+  [17, [1]],
+  [18, [0]],
+  [32, [4]],
+  [33, [3, 5]],
+  [34, [2, 4, 6]],
+  [35, [1]],
+  [36, [0]],
+  [52, [2, 4, 6]],
+  [53, [1]],
+  [54, [0, 2, 4, 6]],
+]);
+
+const ORGANIC_SUBSET = new Set(["B", "C", "N", "O", "P", "S", "F", "Cl", "Br", "I"]);
+const AROMATIC_ORGANIC = new Set(["B", "C", "N", "O", "P", "S"]);
+const AROMATIC_BRACKET = new Set(["B", "C", "N", "O", "P", "S", "Se", "As", "Te"]);
+const LONE_PAIR_AROMATIC = new Set(["O", "S"]);
+
+function fail(message: string): never {
+  throw new Error(message);
+}
+
+function allowedValences(element: string, charge: number) {
+  const atomicNumber = ATOMIC_NUMBER.get(element);
+  if (!atomicNumber || !VALENCES.has(atomicNumber)) {
+    return null;
+  }
+  return VALENCES.get(atomicNumber - charge) ?? null;
+}
+
+function otherAtom(bond: Bond, atom: number) {
+  return bond.a === atom ? bond.b : bond.a;
+}
+
+function buildAdjacency(molecule: Molecule) {
+  const adjacency: number[][] = molecule.atoms.map(() => []);
+  molecule.bonds.forEach((bond, index) => {
+    adjacency[bond.a].push(index);
+    adjacency[bond.b].push(index);
+  });
+  return adjacency;
+}
+
+function parseSmiles(input: string): Molecule {
+  const atoms: Atom[] = [];
+  const bonds: Bond[] = [];
+  const branchStack: Array<{ atom: number; atomCount: number }> = [];
+  const lonePairSlots = new Map<number, number>();
+  const openRings = new Map<
+    number,
+    { atom: number; symbol: string | null; slot: number }
+  >();
+  let previous: number | null = null;
+  let pendingBond: string | null = null;
+  let i = 0;
+
+  const hasBond = (a: number, b: number) =>
+    bonds.some(
+      (bond) => (bond.a === a && bond.b === b) || (bond.a === b && bond.b === a)
+    );
+
+  const addBond = (from: number, to: number, symbol: string | null) => {
+    const aromatic =
+      symbol === ":" ||
+      (symbol === null && atoms[from].aromatic && atoms[to].aromatic);
+    const order =
+      symbol === "=" ? 2 : symbol === "#" ? 3 : symbol === "$" ? 4 : 1;
+    const directional = symbol === "/" || symbol === "\\";
+    bonds.push({
+      a: from,
+      b: to,
+      order,
+      aromatic,
+      up: directional ? symbol === "/" : null,
+    });
+  };
+
+  const addAtom = (atom: Omit<Atom, "order">) => {
+    const index = atoms.length;
+    atoms.push({ ...atom, order: [] });
+    if (previous !== null) {
+      addBond(previous, index, pendingBond);
+      atoms[previous].order.push(index);
+      atoms[index].order.push(previous);
+    } else if (pendingBond !== null) {
+      fail(`bond '${pendingBond}' has no preceding atom`);
+    }
+    if (atom.chirality && atom.hydrogens > 0) {
+      atoms[index].order.push(HYDROGEN);
+    } else if (atom.chirality) {
+      lonePairSlots.set(index, atoms[index].order.length);
+    }
+    pendingBond = null;
+    previous = index;
+  };
+
+  const readNumber = () => {
+    const start = i;
+    while (i < input.length && /[0-9]/.test(input[i])) {
+      i += 1;
+    }
+    return start === i ? null : Number(input.slice(start, i));
+  };
+
+  const parseBracketAtom = () => {
+    const close = input.indexOf("]", i);
+    if (close === -1) {
+      fail("unterminated bracket atom");
+    }
+    i += 1;
+    const isotope = readNumber();
+
+    let element = "";
+    let aromatic = false;
+    const rest = input.slice(i, close);
+    const aromaticMatch = /^(se|as|te|[bcnops])/.exec(rest);
+    const elementMatch = /^[A-Z][a-z]?/.exec(rest);
+    if (elementMatch && ATOMIC_NUMBER.has(elementMatch[0])) {
+      element = elementMatch[0];
+    } else if (elementMatch && ATOMIC_NUMBER.has(elementMatch[0][0])) {
+      element = elementMatch[0][0];
+    } else if (aromaticMatch) {
+      element =
+        aromaticMatch[0][0].toUpperCase() + aromaticMatch[0].slice(1);
+      aromatic = true;
+      if (!AROMATIC_BRACKET.has(element)) {
+        fail(`'${aromaticMatch[0]}' cannot be aromatic`);
+      }
+    } else {
+      fail(`unknown element in '${input.slice(i - 1, close + 1)}'`);
+    }
+    i += element.length;
+
+    let chirality: Chirality | null = null;
+    if (input[i] === "@") {
+      if (input.startsWith("@@", i)) {
+        chirality = "@@";
+        i += 2;
+      } else if (input.startsWith("@TH1", i)) {
+        chirality = "@";
+        i += 4;
+      } else if (input.startsWith("@TH2", i)) {
+        chirality = "@@";
+        i += 4;
+      } else if (/^@(AL|SP|TB|OH)/.test(input.slice(i))) {
+        fail("only tetrahedral chirality is supported");
+      } else {
+        chirality = "@";
+        i += 1;
+      }
+    }
+
+    let hydrogens = 0;
+    if (input[i] === "H") {
+      i += 1;
+      hydrogens = readNumber() ?? 1;
+    }
+
+    let charge = 0;
+    if (input[i] === "+" || input[i] === "-") {
+      const sign = input[i] === "+" ? 1 : -1;
+      i += 1;
+      const magnitude = readNumber();
+      if (magnitude !== null) {
+        charge = sign * magnitude;
+      } else {
+        charge = sign;
+        while (input[i] === (sign > 0 ? "+" : "-")) {
+          charge += sign;
+          i += 1;
+        }
+      }
+    }
+
+    let atomClass: number | null = null;
+    if (input[i] === ":") {
+      i += 1;
+      atomClass = readNumber();
+      if (atomClass === null) {
+        fail("atom class needs a number");
+      }
+    }
+
+    if (i !== close) {
+      fail(`unexpected '${input[i]}' in bracket atom`);
+    }
+    i = close + 1;
+
+    addAtom({
+      element,
+      aromatic,
+      bracket: true,
+      isotope,
+      charge,
+      hydrogens,
+      chirality,
+      atomClass,
+    });
+  };
+
+  const parseRingBond = (ringNumber: number) => {
+    if (previous === null) {
+      fail(`ring bond ${ringNumber} has no preceding atom`);
+    }
+    const current = previous;
+    const open = openRings.get(ringNumber);
+    if (!open) {
+      openRings.set(ringNumber, {
+        atom: current,
+        symbol: pendingBond,
+        slot: atoms[current].order.length,
+      });
+      atoms[current].order.push(RING_PLACEHOLDER);
+      pendingBond = null;
+      return;
+    }
+
+    openRings.delete(ringNumber);
+    if (open.atom === current) {
+      fail(`ring bond ${ringNumber} closes on its own atom`);
+    }
+    if (hasBond(open.atom, current)) {
+      fail(`ring bond ${ringNumber} duplicates an existing bond`);
+    }
+
+    const directional = (symbol: string | null) =>
+      symbol === "/" || symbol === "\\";
+    if (
+      open.symbol !== null &&
+      pendingBond !== null &&
+      open.symbol !== pendingBond &&
+      !(directional(open.symbol) && directional(pendingBond))
+    ) {
+      fail(`ring bond ${ringNumber} has conflicting bond types`);
+    }
+
+    if (directional(open.symbol)) {
+      addBond(open.atom, current, open.symbol);
+      if (directional(pendingBond)) {
+        // The closing side reads its symbol from the closing atom outward.
+        const closingUp = pendingBond !== "/";
+        if (bonds[bonds.length - 1].up !== closingUp) {
+          fail(`ring bond ${ringNumber} has conflicting directions`);
+        }
+      }
+    } else if (directional(pendingBond)) {
+      addBond(current, open.atom, pendingBond);
+    } else {
+      addBond(open.atom, current, open.symbol ?? pendingBond);
+    }
+
+    atoms[open.atom].order[open.slot] = current;
+    atoms[current].order.push(open.atom);
+    pendingBond = null;
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (char === "[") {
+      parseBracketAtom();
+      continue;
+    }
+
+    const twoLetter = input.slice(i, i + 2);
+    if (twoLetter === "Cl" || twoLetter === "Br") {
+      addAtom({
+        element: twoLetter,
+        aromatic: false,
+        bracket: false,
+        isotope: null,
+        charge: 0,
+        hydrogens: 0,
+        chirality: null,
+        atomClass: null,
+      });
+      i += 2;
+      continue;
+    }
+
+    if (/[BCNOPSFI]/.test(char) || /[bcnops]/.test(char)) {
+      addAtom({
+        element: char.toUpperCase(),
+        aromatic: char === char.toLowerCase(),
+        bracket: false,
+        isotope: null,
+        charge: 0,
+        hydrogens: 0,
+        chirality: null,
+        atomClass: null,
+      });
+      i += 1;
+      continue;
+    }
+
+    if (/[-=#$:/\\]/.test(char)) {
+      if (pendingBond !== null) {
+        fail(`unexpected bond '${char}' after '${pendingBond}'`);
+      }
+      pendingBond = char;
+      i += 1;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      parseRingBond(Number(char));
+      i += 1;
+      continue;
+    }
+
+    if (char === "%") {
+      const digits = input.slice(i + 1, i + 3);
+      if (!/^[0-9]{2}$/.test(digits)) {
+        fail("'%' must be followed by two digits");
+      }
+      parseRingBond(Number(digits));
+      i += 3;
+      continue;
+    }
+
+    if (char === "(") {
+      if (previous === null) {
+        fail("branch has no preceding atom");
+      }
+      if (pendingBond !== null) {
+        fail(`bond '${pendingBond}' before branch`);
+      }
+      branchStack.push({ atom: previous, atomCount: atoms.length });
+      i += 1;
+      continue;
+    }
+
+    if (char === ")") {
+      const branch = branchStack.pop();
+      if (!branch) {
+        fail("unbalanced ')'");
+      }
+      if (pendingBond !== null) {
+        fail(`bond '${pendingBond}' at end of branch`);
+      }
+      if (branch.atomCount === atoms.length) {
+        fail("empty branch");
+      }
+      previous = branch.atom;
+      i += 1;
+      continue;
+    }
+
+    if (char === ".") {
+      if (previous === null || pendingBond !== null) {
+        fail("misplaced '.'");
+      }
+      previous = null;
+      i += 1;
+      continue;
+    }
+
+    if (char === "*") {
+      fail("wildcard atoms are not supported");
+    }
+
+    fail(`unexpected character '${char}'`);
+  }
+
+  if (atoms.length === 0) {
+    fail("no atoms");
+  }
+  if (pendingBond !== null) {
+    fail(`bond '${pendingBond}' at end of input`);
+  }
+  if (branchStack.length > 0) {
+    fail("unbalanced '('");
+  }
+  if (openRings.size > 0) {
+    fail(`unclosed ring bond ${Array.from(openRings.keys()).join(", ")}`);
+  }
+
+  bonds.forEach((bond) => {
+    if (bond.aromatic && !(atoms[bond.a].aromatic && atoms[bond.b].aromatic)) {
+      bond.aromatic = false;
+    }
+  });
+
+  lonePairSlots.forEach((slot, index) => {
+    if (atoms[index].order.length === 3) {
+      atoms[index].order.splice(slot, 0, HYDROGEN);
+    }
+  });
+
+  const molecule = { atoms, bonds, stereo: [] };
+  return { ...molecule, stereo: findDoubleBondStereo(molecule) };
+}
+
+function bondValenceSum(molecule: Molecule, adjacency: number[][], atom: number) {
+  return adjacency[atom].reduce((sum, bondIndex) => {
+    const bond = molecule.bonds[bondIndex];
+    return sum + (bond.aromatic ? 1 : bond.order);
+  }, 0);
+}
+
+// Hydrogen count an atom gets under the default valence model (what an
+// unbracketed SMILES atom implies), or null when its bonds exceed every
+// allowed valence.
+function implicitHydrogens(molecule: Molecule, adjacency: number[][], atom: number) {
+  const { element, aromatic, charge } = molecule.atoms[atom];
+  const valences = allowedValences(element, charge);
+  if (!valences) {
+    return 0;
+  }
+  const bondSum = bondValenceSum(molecule, adjacency, atom);
+  if (aromatic && valences.includes(bondSum)) {
+    return 0;
+  }
+  const target =
+    aromatic && !LONE_PAIR_AROMATIC.has(element) ? bondSum + 1 : bondSum;
+  const valence = valences.find((value) => value >= target);
+  if (valence === undefined) {
+    if (aromatic && bondSum <= Math.max(...valences)) {
+      return 0;
+    }
+    return null;
+  }
+  return valence - target;
+}
+
+function assignImplicitHydrogens(molecule: Molecule) {
+  const adjacency = buildAdjacency(molecule);
+  molecule.atoms.forEach((atom, index) => {
+    if (atom.bracket) {
+      return;
+    }
+    const hydrogens = implicitHydrogens(molecule, adjacency, index);
+    if (hydrogens === null) {
+      fail(`bad valence on ${atom.element}`);
+    }
+    atom.hydrogens = hydrogens;
+    if (
+      atom.chirality &&
+      hydrogens <= 1 &&
+      atom.order.length === 3 &&
+      !atom.order.includes(HYDROGEN)
+    ) {
+      atom.order.push(HYDROGEN);
+    }
+  });
+}
+
+function kekulize(molecule: Molecule) {
+  const adjacency = buildAdjacency(molecule);
+  const { atoms, bonds } = molecule;
+
+  const needsDouble = atoms.map((atom, index) => {
+    if (!atom.aromatic) {
+      return false;
+    }
+    const valences = allowedValences(atom.element, atom.charge);
+    if (!valences) {
+      return false;
+    }
+    const valence = bondValenceSum(molecule, adjacency, index) + atom.hydrogens;
+    return !valences.includes(valence) && valences.includes(valence + 1);
+  });
+
+  const candidates = (atom: number, matched: boolean[]) =>
+    adjacency[atom].filter((bondIndex) => {
+      const bond = bonds[bondIndex];
+      const other = otherAtom(bond, atom);
+      return bond.aromatic && needsDouble[other] && !matched[other];
+    });
+
+  const matched = atoms.map(() => false);
+  const chosen: number[] = [];
+  let steps = 0;
+
+  const search = (): boolean => {
+    steps += 1;
+    if (steps > MAX_KEKULE_STEPS) {
+      fail("aromatic system is too large to kekulize");
+    }
+    let best = -1;
+    let bestOptions: number[] = [];
+    for (let atom = 0; atom < atoms.length; atom += 1) {
+      if (!needsDouble[atom] || matched[atom]) {
+        continue;
+      }
+      const options = candidates(atom, matched);
+      if (options.length === 0) {
+        return false;
+      }
+      if (best === -1 || options.length < bestOptions.length) {
+        best = atom;
+        bestOptions = options;
+      }
+    }
+    if (best === -1) {
+      return true;
+    }
+    for (const bondIndex of bestOptions) {
+      const other = otherAtom(bonds[bondIndex], best);
+      matched[best] = true;
+      matched[other] = true;
+      chosen.push(bondIndex);
+      if (search()) {
+        return true;
+      }
+      chosen.pop();
+      matched[best] = false;
+      matched[other] = false;
+    }
+    return false;
+  };
+
+  if (!search()) {
+    fail("aromatic system cannot be kekulized");
+  }
+
+  const doubles = new Set(chosen);
+  bonds.forEach((bond, index) => {
+    if (bond.aromatic) {
+      bond.aromatic = false;
+      bond.order = doubles.has(index) ? 2 : 1;
+    }
+  });
+  atoms.forEach((atom) => {
+    atom.aromatic = false;
+  });
+}
+
+function checkValences(molecule: Molecule) {
+  const adjacency = buildAdjacency(molecule);
+  molecule.atoms.forEach((atom, index) => {
+    const valences = allowedValences(atom.element, atom.charge);
+    if (!valences) {
+      return;
+    }
+    const valence = bondValenceSum(molecule, adjacency, index) + atom.hydrogens;
+    if (valence > Math.max(...valences)) {
+      fail(`bad valence on ${atom.element}`);
+    }
+  });
+}
+
+// Folds plain [H] atoms into their heavy neighbour's hydrogen count so that
+// explicit and implicit hydrogens spell the same molecule.
+function foldExplicitHydrogens(molecule: Molecule): Molecule {
+  const adjacency = buildAdjacency(molecule);
+  const { atoms, bonds } = molecule;
+  const removed = atoms.map((atom, index) => {
+    if (
+      atom.element !== "H" ||
+      atom.isotope !== null ||
+      atom.charge !== 0 ||
+      atom.hydrogens !== 0 ||
+      atom.atomClass !== null ||
+      adjacency[index].length !== 1
+    ) {
+      return false;
+    }
+    const bond = bonds[adjacency[index][0]];
+    const heavy = atoms[otherAtom(bond, index)];
+    return bond.order === 1 && heavy.element !== "H";
+  });
+
+  if (!removed.some(Boolean)) {
+    return molecule;
+  }
+
+  const remap = new Map<number, number>();
+  atoms.forEach((_, index) => {
+    if (!removed[index]) {
+      remap.set(index, remap.size);
+    }
+  });
+
+  const nextAtoms: Atom[] = [];
+  atoms.forEach((atom, index) => {
+    if (removed[index]) {
+      return;
+    }
+    const folded = atom.order.filter(
+      (neighbor) => neighbor >= 0 && removed[neighbor]
+    ).length;
+    nextAtoms.push({
+      ...atom,
+      hydrogens: atom.hydrogens + folded,
+      order: atom.order.map((neighbor) =>
+        neighbor >= 0 ? remap.get(neighbor) ?? HYDROGEN : neighbor
+      ),
+    });
+  });
+
+  const nextBonds = bonds
+    .filter((bond) => !removed[bond.a] && !removed[bond.b])
+    .map((bond) => ({
+      ...bond,
+      a: remap.get(bond.a) as number,
+      b: remap.get(bond.b) as number,
+    }));
+
+  const nextStereo: DoubleBondStereo[] = [];
+  for (const entry of molecule.stereo) {
+    let { leftRef, rightRef, cis } = entry;
+    const replacement = (atom: number, partner: number, ref: number) =>
+      adjacency[atom]
+        .map((bondIndex) => otherAtom(bonds[bondIndex], atom))
+        .find((other) => other !== partner && other !== ref && !removed[other]);
+    if (removed[leftRef]) {
+      const other = replacement(entry.left, entry.right, leftRef);
+      if (other === undefined) continue;
+      leftRef = other;
+      cis = !cis;
+    }
+    if (removed[rightRef]) {
+      const other = replacement(entry.right, entry.left, rightRef);
+      if (other === undefined) continue;
+      rightRef = other;
+      cis = !cis;
+    }
+    nextStereo.push({
+      left: remap.get(entry.left) as number,
+      right: remap.get(entry.right) as number,
+      leftRef: remap.get(leftRef) as number,
+      rightRef: remap.get(rightRef) as number,
+      cis,
+    });
+  }
+
+  return { atoms: nextAtoms, bonds: nextBonds, stereo: nextStereo };
+}
+
+function findRingBonds(molecule: Molecule, adjacency: number[][]) {
+  const { atoms, bonds } = molecule;
+  const discovery = atoms.map(() => -1);
+  const low = atoms.map(() => 0);
+  const ringBond = bonds.map(() => true);
+  let time = 0;
+
+  const visit = (atom: number, parentBond: number) => {
+    discovery[atom] = time;
+    low[atom] = time;
+    time += 1;
+    for (const bondIndex of adjacency[atom]) {
+      if (bondIndex === parentBond) {
+        continue;
+      }
+      const next = otherAtom(bonds[bondIndex], atom);
+      if (discovery[next] === -1) {
+        visit(next, bondIndex);
+        low[atom] = Math.min(low[atom], low[next]);
+        if (low[next] > discovery[atom]) {
+          ringBond[bondIndex] = false;
+        }
+      } else {
+        low[atom] = Math.min(low[atom], discovery[next]);
+      }
+    }
+  };
+
+  atoms.forEach((_, index) => {
+    if (discovery[index] === -1) {
+      visit(index, -1);
+    }
+  });
+
+  return ringBond;
+}
+
+function findRings(molecule: Molecule, adjacency: number[][], ringBond: boolean[]) {
+  const rings: number[][] = [];
+  const { atoms, bonds } = molecule;
+
+  for (let start = 0; start < atoms.length; start += 1) {
+    const path = [start];
+    const onPath = new Set(path);
+
+    const extend = (atom: number) => {
+      if (rings.length >= MAX_RING_COUNT) {
+        return;
+      }
+      for (const bondIndex of adjacency[atom]) {
+        if (!ringBond[bondIndex]) {
+          continue;
+        }
+        const next = otherAtom(bonds[bondIndex], atom);
+        if (next === start && path.length >= 3 && path[1] < atom) {
+          rings.push([...path]);
+        } else if (next > start && !onPath.has(next) && path.length < MAX_RING_SIZE) {
+          path.push(next);
+          onPath.add(next);
+          extend(next);
+          onPath.delete(next);
+          path.pop();
+        }
+      }
+    };
+
+    extend(start);
+  }
+
+  return rings.sort((left, right) => left.length - right.length);
+}
+
+function piElectrons(
+  molecule: Molecule,
+  adjacency: number[][],
+  ringBond: boolean[],
+  atomIndex: number
+) {
+  const atom = molecule.atoms[atomIndex];
+  if (!AROMATIC_BRACKET.has(atom.element)) {
+    return null;
+  }
+  const bonds = adjacency[atomIndex].map((index) => molecule.bonds[index]);
+  if (bonds.some((bond) => bond.order > 2)) {
+    return null;
+  }
+  const connections = bonds.length + atom.hydrogens;
+  if (connections > 3) {
+    return null;
+  }
+
+  const doubles = adjacency[atomIndex].filter(
+    (index) => molecule.bonds[index].order === 2
+  );
+  if (doubles.length > 1) {
+    return null;
+  }
+  if (doubles.length === 1) {
+    if (ringBond[doubles[0]]) {
+      return 1;
+    }
+    const partner = molecule.atoms[otherAtom(molecule.bonds[doubles[0]], atomIndex)];
+    return ["O", "N", "S"].includes(partner.element) ? 0 : null;
+  }
+
+  switch (atom.element) {
+    case "C":
+      if (atom.charge === -1 && connections === 3) return 2;
+      if (atom.charge === 1) return 0;
+      return null;
+    case "N":
+    case "P":
+    case "As":
+      if (atom.charge === 0 && connections === 3) return 2;
+      if (atom.charge === -1 && connections === 2) return 2;
+      return null;
+    case "O":
+    case "S":
+    case "Se":
+    case "Te":
+      return atom.charge === 0 && connections === 2 ? 2 : null;
+    case "B":
+      return atom.charge === 0 && connections === 3 ? 0 : null;
+    default:
+      return null;
+  }
+}
+
+function perceiveAromaticity(molecule: Molecule) {
+  const adjacency = buildAdjacency(molecule);
+  const ringBond = findRingBonds(molecule, adjacency);
+  const rings = findRings(molecule, adjacency, ringBond);
+  const electrons = molecule.atoms.map((_, index) =>
+    piElectrons(molecule, adjacency, ringBond, index)
+  );
+
+  const bondBetween = (a: number, b: number) =>
+    adjacency[a].find((index) => otherAtom(molecule.bonds[index], a) === b);
+
+  const aromaticAtoms = new Set<number>();
+  const aromaticBonds = new Set<number>();
+
+  for (const ring of rings) {
+    let total = 0;
+    let qualifies = true;
+    for (const atom of ring) {
+      const count = electrons[atom];
+      if (count === null) {
+        qualifies = false;
+        break;
+      }
+      total += count;
+    }
+    if (!qualifies || total % 4 !== 2) {
+      continue;
+    }
+    ring.forEach((atom, position) => {
+      aromaticAtoms.add(atom);
+      const next = ring[(position + 1) % ring.length];
+      const bondIndex = bondBetween(atom, next);
+      if (bondIndex !== undefined) {
+        aromaticBonds.add(bondIndex);
+      }
+    });
+  }
+
+  aromaticAtoms.forEach((atom) => {
+    molecule.atoms[atom].aromatic = true;
+  });
+  aromaticBonds.forEach((bondIndex) => {
+    const bond = molecule.bonds[bondIndex];
+    bond.aromatic = true;
+    bond.order = 1;
+  });
+
+  molecule.stereo = molecule.stereo.filter((entry) => {
+    if (molecule.atoms[entry.left].aromatic && molecule.atoms[entry.right].aromatic) {
+      return false;
+    }
+    return !rings.some(
+      (ring) =>
+        ring.length < MIN_STEREO_RING_SIZE &&
+        ring.includes(entry.left) &&
+        ring.includes(entry.right)
+    );
+  });
+}
+
+function findDoubleBondStereo(molecule: Molecule) {
+  const adjacency = buildAdjacency(molecule);
+  const stereo: DoubleBondStereo[] = [];
+  const above = (bond: Bond, from: number) =>
+    bond.a === from ? bond.up : bond.up === null ? null : !bond.up;
+
+  molecule.bonds.forEach((bond) => {
+    if (bond.order !== 2 || bond.aromatic) {
+      return;
+    }
+    const reference = (atom: number, partner: number) => {
+      for (const bondIndex of adjacency[atom]) {
+        const candidate = molecule.bonds[bondIndex];
+        const other = otherAtom(candidate, atom);
+        if (other !== partner && candidate.up !== null) {
+          return { atom: other, above: above(candidate, atom) as boolean };
+        }
+      }
+      return null;
+    };
+    const left = reference(bond.a, bond.b);
+    const right = reference(bond.b, bond.a);
+    if (!left || !right) {
+      return;
+    }
+    stereo.push({
+      left: bond.a,
+      right: bond.b,
+      leftRef: left.atom,
+      rightRef: right.atom,
+      cis: left.above === right.above,
+    });
+  });
+
+  return stereo;
+}
+
+function compareNumberArrays(left: number[], right: number[]) {
+  const length = Math.min(left.length, right.length);
+  for (let i = 0; i < length; i += 1) {
+    if (left[i] !== right[i]) {
+      return left[i] - right[i];
+    }
+  }
+  return left.length - right.length;
+}
+
+function denseRanks(keys: number[][]) {
+  const sorted = keys
+    .map((key, index) => ({ key, index }))
+    .sort((left, right) => compareNumberArrays(left.key, right.key));
+  const ranks = keys.map(() => 0);
+  let rank = 0;
+  sorted.forEach((entry, position) => {
+    if (
+      position > 0 &&
+      compareNumberArrays(sorted[position - 1].key, entry.key) !== 0
+    ) {
+      rank += 1;
+    }
+    ranks[entry.index] = rank;
+  });
+  return ranks;
+}
+
+function countDistinct(values: number[]) {
+  return new Set(values).size;
+}
+
+function canonicalRanks(molecule: Molecule, adjacency: number[][]) {
+  const { atoms, bonds } = molecule;
+  const bondCode = (bond: Bond) => (bond.aromatic ? 5 : bond.order);
+
+  let ranks = denseRanks(
+    atoms.map((atom, index) => [
+      adjacency[index].length,
+      ATOMIC_NUMBER.get(atom.element) ?? 0,
+      atom.isotope ?? 0,
+      atom.charge,
+      atom.hydrogens,
+      atom.aromatic ? 1 : 0,
+      atom.atomClass ?? 0,
+    ])
+  );
+
+  const refine = () => {
+    while (true) {
+      const next = denseRanks(
+        atoms.map((_, index) => [
+          ranks[index],
+          ...adjacency[index]
+            .map((bondIndex) => {
+              const bond = bonds[bondIndex];
+              return ranks[otherAtom(bond, index)] * 8 + bondCode(bond);
+            })
+            .sort((left, right) => left - right),
+        ])
+      );
+      if (countDistinct(next) === countDistinct(ranks)) {
+        return;
+      }
+      ranks = next;
+    }
+  };
+
+  // Each tie-break splits one class and ranks are kept dense, so this takes at
+  // most one step per atom.
+  refine();
+  for (
+    let step = 0;
+    step < atoms.length && countDistinct(ranks) < atoms.length;
+    step += 1
+  ) {
+    const counts = new Map<number, number>();
+    ranks.forEach((rank) => counts.set(rank, (counts.get(rank) ?? 0) + 1));
+    const tied = Math.min(
+      ...Array.from(counts.entries())
+        .filter(([, count]) => count > 1)
+        .map(([rank]) => rank)
+    );
+    const chosen = ranks.indexOf(tied);
+    ranks = denseRanks(
+      ranks.map((rank, index) => [index === chosen ? rank * 2 : rank * 2 + 1])
+    );
+    refine();
+  }
+
+  return ranks;
+}
+
+function permutationIsOdd(from: number[], to: number[]) {
+  if (from.length !== to.length) {
+    return null;
+  }
+  const positions = new Map<number, number>();
+  to.forEach((value, index) => positions.set(value, index));
+  if (positions.size !== to.length) {
+    return null;
+  }
+  const permutation = from.map((value) => positions.get(value));
+  if (permutation.some((value) => value === undefined)) {
+    return null;
+  }
+  const seen = from.map(() => false);
+  let odd = false;
+  for (let start = 0; start < permutation.length; start += 1) {
+    let length = 0;
+    let current = start;
+    while (!seen[current]) {
+      seen[current] = true;
+      current = permutation[current] as number;
+      length += 1;
+    }
+    if (length > 0 && length % 2 === 0) {
+      odd = !odd;
+    }
+  }
+  return odd;
+}
+
+function writeSmiles(molecule: Molecule) {
+  const { atoms, bonds } = molecule;
+  const adjacency = buildAdjacency(molecule);
+  const ranks = canonicalRanks(molecule, adjacency);
+  const { stereo } = molecule;
+
+  const visitOrder = atoms.map(() => -1);
+  const parentBond = atoms.map(() => -1);
+  const children: number[][] = atoms.map(() => []);
+  const ringSlots: Array<Array<{ bond: number; opens: boolean }>> = atoms.map(
+    () => []
+  );
+  const bondFrom = bonds.map(() => -1);
+  const usedBond = bonds.map(() => false);
+  let visited = 0;
+
+  const sortedNeighbors = (atom: number) =>
+    [...adjacency[atom]].sort(
+      (left, right) =>
+        ranks[otherAtom(bonds[left], atom)] - ranks[otherAtom(bonds[right], atom)]
+    );
+
+  const plan = (atom: number) => {
+    visitOrder[atom] = visited;
+    visited += 1;
+    const neighbors = sortedNeighbors(atom);
+
+    for (const bondIndex of neighbors) {
+      const other = otherAtom(bonds[bondIndex], atom);
+      if (!usedBond[bondIndex] && visitOrder[other] !== -1) {
+        usedBond[bondIndex] = true;
+        bondFrom[bondIndex] = other;
+        ringSlots[other].push({ bond: bondIndex, opens: true });
+        ringSlots[atom].push({ bond: bondIndex, opens: false });
+      }
+    }
+
+    for (const bondIndex of neighbors) {
+      const other = otherAtom(bonds[bondIndex], atom);
+      if (usedBond[bondIndex]) {
+        continue;
+      }
+      if (visitOrder[other] !== -1) {
+        usedBond[bondIndex] = true;
+        bondFrom[bondIndex] = other;
+        ringSlots[other].push({ bond: bondIndex, opens: true });
+        ringSlots[atom].push({ bond: bondIndex, opens: false });
+        continue;
+      }
+      usedBond[bondIndex] = true;
+      bondFrom[bondIndex] = atom;
+      parentBond[other] = bondIndex;
+      children[atom].push(other);
+      plan(other);
+    }
+  };
+
+  const roots: number[] = [];
+  [...atoms.keys()]
+    .sort((left, right) => ranks[left] - ranks[right])
+    .forEach((atom) => {
+      if (visitOrder[atom] === -1) {
+        roots.push(atom);
+        plan(atom);
+      }
+    });
+
+  const bondSymbols = new Map<number, string>();
+  const aboveFrom = (bondIndex: number, atom: number) =>
+    (bondSymbols.get(bondIndex) === "/") === (bondFrom[bondIndex] === atom);
+
+  [...stereo]
+    .sort(
+      (left, right) =>
+        Math.min(visitOrder[left.left], visitOrder[left.right]) -
+        Math.min(visitOrder[right.left], visitOrder[right.right])
+    )
+    .forEach((entry) => {
+      const leftFirst = visitOrder[entry.left] < visitOrder[entry.right];
+      const first = leftFirst ? entry.left : entry.right;
+      const second = leftFirst ? entry.right : entry.left;
+      const firstRef = leftFirst ? entry.leftRef : entry.rightRef;
+      const secondRef = leftFirst ? entry.rightRef : entry.leftRef;
+
+      const pickReference = (atom: number, partner: number) => {
+        const options = adjacency[atom].filter((bondIndex) => {
+          const bond = bonds[bondIndex];
+          return (
+            otherAtom(bond, atom) !== partner && bond.order === 1 && !bond.aromatic
+          );
+        });
+        const assigned = options.find((bondIndex) => bondSymbols.has(bondIndex));
+        if (assigned !== undefined) {
+          return assigned;
+        }
+        return options.sort(
+          (left, right) =>
+            visitOrder[otherAtom(bonds[left], atom)] -
+            visitOrder[otherAtom(bonds[right], atom)]
+        )[0];
+      };
+
+      const firstBond = pickReference(first, second);
+      const secondBond = pickReference(second, first);
+      if (firstBond === undefined || secondBond === undefined) {
+        return;
+      }
+
+      let cis = entry.cis;
+      if (otherAtom(bonds[firstBond], first) !== firstRef) cis = !cis;
+      if (otherAtom(bonds[secondBond], second) !== secondRef) cis = !cis;
+
+      if (!bondSymbols.has(firstBond)) {
+        if (bondSymbols.has(secondBond)) {
+          const wanted = cis
+            ? aboveFrom(secondBond, second)
+            : !aboveFrom(secondBond, second);
+          bondSymbols.set(
+            firstBond,
+            wanted === (bondFrom[firstBond] === first) ? "/" : "\\"
+          );
+          return;
+        }
+        bondSymbols.set(firstBond, "/");
+      }
+      if (!bondSymbols.has(secondBond)) {
+        const wanted = cis
+          ? aboveFrom(firstBond, first)
+          : !aboveFrom(firstBond, first);
+        bondSymbols.set(
+          secondBond,
+          wanted === (bondFrom[secondBond] === second) ? "/" : "\\"
+        );
+      }
+    });
+
+  const bondSymbol = (bondIndex: number) => {
+    const directional = bondSymbols.get(bondIndex);
+    if (directional) {
+      return directional;
+    }
+    const bond = bonds[bondIndex];
+    if (bond.aromatic) {
+      return "";
+    }
+    switch (bond.order) {
+      case 2:
+        return "=";
+      case 3:
+        return "#";
+      case 4:
+        return "$";
+      default:
+        return atoms[bond.a].aromatic && atoms[bond.b].aromatic ? "-" : "";
+    }
+  };
+
+  const atomSymbol = (index: number) => {
+    const atom = atoms[index];
+    const symbol = atom.aromatic ? atom.element.toLowerCase() : atom.element;
+
+    let chirality = "";
+    if (atom.chirality) {
+      const parent = parentBond[index];
+      const written = [
+        ...(parent === -1 ? [] : [otherAtom(bonds[parent], index)]),
+        ...(atom.order.includes(HYDROGEN) ? [HYDROGEN] : []),
+        ...ringSlots[index].map((slot) => otherAtom(bonds[slot.bond], index)),
+        ...children[index],
+      ];
+      const odd = permutationIsOdd(atom.order, written);
+      if (odd !== null) {
+        chirality = odd === (atom.chirality === "@") ? "@@" : "@";
+      }
+    }
+
+    const organic = atom.aromatic
+      ? AROMATIC_ORGANIC.has(atom.element)
+      : ORGANIC_SUBSET.has(atom.element);
+    if (
+      organic &&
+      atom.isotope === null &&
+      atom.charge === 0 &&
+      !chirality &&
+      atom.atomClass === null &&
+      implicitHydrogens(molecule, adjacency, index) === atom.hydrogens
+    ) {
+      return symbol;
+    }
+
+    const hydrogens =
+      atom.hydrogens === 0 ? "" : atom.hydrogens === 1 ? "H" : `H${atom.hydrogens}`;
+    const charge =
+      atom.charge === 0
+        ? ""
+        : `${atom.charge > 0 ? "+" : "-"}${
+            Math.abs(atom.charge) === 1 ? "" : Math.abs(atom.charge)
+          }`;
+    const atomClass = atom.atomClass === null ? "" : `:${atom.atomClass}`;
+    return `[${atom.isotope ?? ""}${symbol}${chirality}${hydrogens}${charge}${atomClass}]`;
+  };
+
+  const ringNumbers = new Map<number, number>();
+  const inUse = new Set<number>();
+  const ringLabel = (value: number) => (value < 10 ? `${value}` : `%${value}`);
+
+  const emit = (index: number): string => {
+    let text = atomSymbol(index);
+    const released: number[] = [];
+
+    for (const slot of ringSlots[index]) {
+      if (slot.opens) {
+        let value = 1;
+        while (inUse.has(value)) {
+          value += 1;
+        }
+        if (value > 99) {
+          fail("too many open rings");
+        }
+        inUse.add(value);
+        ringNumbers.set(slot.bond, value);
+        text += bondSymbol(slot.bond) + ringLabel(value);
+      } else {
+        const value = ringNumbers.get(slot.bond) as number;
+        text += ringLabel(value);
+        released.push(value);
+      }
+    }
+    released.forEach((value) => inUse.delete(value));
+
+    children[index].forEach((child, position) => {
+      const branch = bondSymbol(parentBond[child]) + emit(child);
+      text += position < children[index].length - 1 ? `(${branch})` : branch;
+    });
+
+    return text;
+  };
+
+  return roots.map((root) => emit(root)).join(".");
+}
+
+export function canonicalizeMolecule(input: Molecule): SmilesResult {
+  try {
+    if (input.atoms.filter((atom) => atom.element !== "H").length > MAX_HEAVY_ATOMS) {
+      fail(`more than ${MAX_HEAVY_ATOMS} heavy atoms`);
+    }
+    const parsed: Molecule = {
+      atoms: input.atoms.map((atom) => ({ ...atom, order: [...atom.order] })),
+      bonds: input.bonds.map((bond) => ({ ...bond })),
+      stereo: input.stereo.map((entry) => ({ ...entry })),
+    };
+    assignImplicitHydrogens(parsed);
+    kekulize(parsed);
+    checkValences(parsed);
+    const molecule = foldExplicitHydrogens(parsed);
+    perceiveAromaticity(molecule);
+    return { ok: true, canonical: writeSmiles(molecule) };
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : "invalid structure",
+    };
+  }
+}
+
+export function canonicalizeSmiles(input: string): SmilesResult {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    return { ok: false, error: "empty SMILES" };
+  }
+  if (/\s/.test(trimmed)) {
+    return { ok: false, error: "SMILES must not contain whitespace" };
+  }
+
+  try {
+    return canonicalizeMolecule(parseSmiles(trimmed));
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : "invalid SMILES",
+    };
+  }
+}
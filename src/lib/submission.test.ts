@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  summarizePreview,
+  type PreparedPair,
+  type PreparedSubmission,
+  type SubmissionRequest,
+} from "@/lib/submission";
+import {
+  WARNING_ASSOCIATION_UNAVAILABLE,
+  WARNING_GENE_SYMBOL_UNRESOLVED,
+  WARNING_INVALID_SMILES,
+} from "@/lib/warnings";
+
+const REQUEST: SubmissionRequest = {
+  mode: "cartesian",
+  memo: "",
+  indicationIds: ["EFO_0000565"],
+  ligandNameField: "",
+  ligandSheet: "",
+  targetSheet: "",
+  ligandFile: null,
+  targetFile: null,
+  pairsFile: null,
+  columnMapping: {},
+};
+
+function pair(overrides: Partial<PreparedPair>): PreparedPair {
+  return {
+    ligand_row: 0,
+    target_row: 0,
+    smiles: "CCO",
+    smiles_canon: "CCO",
+    sequence: "MKT",
+    ligand_name: null,
+    ligand_source: null,
+    ligand_identifier: null,
+    gene_name: "EGFR",
+    target_ensembl_id: "ENSG00000146648",
+    uniprot_accession: null,
+    uniprot_entry_version: null,
+    uniprot_sequence_version: null,
+    gene_warnings: [],
+    gene_lookup_failed: false,
+    input_hash: "new",
+    warnings: [],
+    ...overrides,
+  };
+}
+
+function prepared(pairs: PreparedPair[]): PreparedSubmission {
+  return {
+    request: REQUEST,
+    modelVersion: "test",
+    pairs,
+    doneByHash: new Map([["cached", { input_hash: "cached", affinity_value: 1, affinity_prob: 0.5 }]]),
+    genes: [],
+    detected: {},
+  };
+}
+
+describe("summarizePreview", () => {
+  it("counts statuses and warnings the way a submission would insert them", () => {
+    const preview = summarizePreview(
+      prepared([
+        pair({}),
+        pair({ ligand_row: 1, input_hash: "cached" }),
+        pair({ ligand_row: 2, input_hash: null, warnings: [WARNING_INVALID_SMILES] }),
+        pair({
+          target_row: 1,
+          target_ensembl_id: null,
+          gene_warnings: [WARNING_GENE_SYMBOL_UNRESOLVED],
+          gene_lookup_failed: true,
+        }),
+      ])
+    );
+
+    expect(preview.pairs).toBe(4);
+    expect(preview.summary).toEqual({ total: 4, queued: 2, done: 1, failed: 1 });
+    expect(preview.cached).toBe(1);
+    expect(preview.warning_counts).toEqual({
+      [WARNING_INVALID_SMILES]: 1,
+      [WARNING_GENE_SYMBOL_UNRESOLVED]: 1,
+      [WARNING_ASSOCIATION_UNAVAILABLE]: 1,
+    });
+    // Rows are reported one-based.
+    expect(preview.rows.map((row) => [row.ligand_row, row.target_row, row.status])).toEqual([
+      [3, 1, "failed"],
+      [1, 2, "queued"],
+    ]);
+    expect(preview.rows_truncated).toBe(false);
+  });
+
+  it("caps the rows it lists", () => {
+    const pairs = Array.from({ length: 250 }, (_, index) =>
+      pair({ ligand_row: index, warnings: [WARNING_INVALID_SMILES] })
+    );
+    const preview = summarizePreview(prepared(pairs));
+
+    expect(preview.rows).toHaveLength(200);
+    expect(preview.rows_truncated).toBe(true);
+    expect(preview.warning_counts[WARNING_INVALID_SMILES]).toBe(250);
+  });
+});
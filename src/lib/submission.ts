@@ -0,0 +1,781 @@
+import crypto from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { associationKey, loadAssociationScores } from "@/lib/associations";
+import {
+  applyColumnMapping,
+  parseColumnMapping,
+  type ColumnFileKind,
+  type SubmissionColumnMapping,
+} from "@/lib/columns";
+import {
+  hasLigandIdentifierColumn,
+  ligandIdentifierColumns,
+  ligandIdentifierFromRow,
+  ligandsFromRows,
+} from "@/lib/compounds";
+import {
+  decodeCsvBytes,
+  parseCsv,
+  type CsvDetection,
+  type CsvTable,
+} from "@/lib/csv";
+import { fastaToTable, isFastaFileName } from "@/lib/fasta";
+import { resolveEnsemblIds, resolveGeneMatch } from "@/lib/genes";
+import { MAX_INDICATIONS, isValidIndication } from "@/lib/indications";
+import {
+  fetchDoneByHash,
+  inputHashFor,
+  targetFromSequence,
+  validatePair,
+  type DoneRun,
+  type LigandInput,
+  type TargetInput,
+} from "@/lib/runs";
+import { isSdfFileName, parseSdf } from "@/lib/sdf";
+import {
+  applyUniprotEntry,
+  loadUniprotEntries,
+  normalizeUniprotAccession,
+} from "@/lib/uniprot";
+import {
+  WARNING_ASSOCIATION_UNAVAILABLE,
+  WARNING_PREVIOUS_RESULT,
+} from "@/lib/warnings";
+import { isXlsxFileName, parseXlsx } from "@/lib/xlsx";
+
+export const SUBMISSION_MODE_CARTESIAN = "cartesian";
+export const SUBMISSION_MODE_PAIRED = "paired";
+
+const DEFAULT_MAX_FILE_MB = 10;
+const DEFAULT_MAX_ROWS = 5000;
+const DEFAULT_MAX_PAIRS = 20000;
+const MAX_PREVIEW_ROWS = 200;
+
+export type SubmissionMode =
+  | typeof SUBMISSION_MODE_CARTESIAN
+  | typeof SUBMISSION_MODE_PAIRED;
+
+export type SubmissionFile = {
+  name: string;
+  text: string;
+  // Encoding the upload was decoded from, see decodeCsvBytes.
+  encoding: string;
+  // Raw bytes of an .xlsx upload, whose `text` is empty.
+  workbook: Uint8Array | null;
+};
+
+export type SubmissionDetection = Partial<Record<ColumnFileKind, CsvDetection>>;
+
+export type SubmissionRequest = {
+  mode: SubmissionMode;
+  memo: string;
+  indicationIds: string[];
+  ligandNameField: string;
+  // Workbook sheet to read; empty means the first sheet.
+  ligandSheet: string;
+  targetSheet: string;
+  ligandFile: SubmissionFile | null;
+  targetFile: SubmissionFile | null;
+  pairsFile: SubmissionFile | null;
+  // Header → role choices from the submit form, applied before the header
+  // checks. CSV and .xlsx only; FASTA and SDF inputs ignore it.
+  columnMapping: SubmissionColumnMapping;
+};
+
+// Returned instead of thrown so routes can answer with `status` directly.
+export type SubmissionError = {
+  error: string;
+  status: number;
+  // Set when the file parsed but lacked the required columns.
+  detected?: SubmissionDetection;
+};
+
+export type PreparedPair = {
+  // Zero-based data row of the ligand and target this pair came from.
+  ligand_row: number;
+  target_row: number;
+  smiles: string;
+  smiles_canon: string | null;
+  sequence: string;
+  ligand_name: string | null;
+  ligand_source: string | null;
+  ligand_identifier: string | null;
+  gene_name: string | null;
+  target_ensembl_id: string | null;
+  uniprot_accession: string | null;
+  uniprot_entry_version: number | null;
+  uniprot_sequence_version: number | null;
+  gene_warnings: string[];
+  gene_lookup_failed: boolean;
+  input_hash: string | null;
+  warnings: string[];
+};
+
+export type GeneResolutionSummary = {
+  name: string;
+  uniprot_accession: string | null;
+  target_ensembl_id: string | null;
+  warnings: string[];
+  lookup_failed: boolean;
+};
+
+export type PreparedSubmission = {
+  request: SubmissionRequest;
+  modelVersion: string;
+  pairs: PreparedPair[];
+  doneByHash: Map<string, DoneRun>;
+  genes: GeneResolutionSummary[];
+  detected: SubmissionDetection;
+};
+
+// Steps prepareSubmission goes through, reported to an optional callback so a
+// background job can record where it is.
+export type SubmissionStage = "parsing" | "targets" | "duplicates";
+
+export type RunStatusSummary = {
+  total: number;
+  queued: number;
+  done: number;
+  failed: number;
+};
+
+function positiveEnvNumber(name: string, fallback: number) {
+  const parsed = Number.parseFloat(process.env[name] ?? "");
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// Upper bounds per submission: upload size per file, data rows per file and
+// the number of pairs (runs) it may create.
+export function submissionLimits() {
+  return {
+    maxFileMb: positiveEnvNumber("SUBMISSION_MAX_FILE_MB", DEFAULT_MAX_FILE_MB),
+    maxRows: Math.floor(positiveEnvNumber("SUBMISSION_MAX_ROWS", DEFAULT_MAX_ROWS)),
+    maxPairs: Math.floor(positiveEnvNumber("SUBMISSION_MAX_PAIRS", DEFAULT_MAX_PAIRS)),
+  };
+}
+
+function checkRowLimits(
+  files: Array<[label: string, rows: number]>,
+  pairs: number
+): SubmissionError | null {
+  const { maxRows, maxPairs } = submissionLimits();
+  for (const [label, rows] of files) {
+    if (rows > maxRows) {
+      return {
+        error: `${label} 행이 너무 많습니다 (${rows}행, 최대 ${maxRows}행).`,
+        status: 400,
+      };
+    }
+  }
+  return pairs > maxPairs
+    ? {
+        error: `pair 수가 너무 많습니다 (${pairs}건, 최대 ${maxPairs}건).`,
+        status: 400,
+      }
+    : null;
+}
+
+async function readFormFile(
+  value: FormDataEntryValue | null
+): Promise<SubmissionFile | null> {
+  if (!(value instanceof File)) {
+    return null;
+  }
+  const bytes = new Uint8Array(await value.arrayBuffer());
+  if (isXlsxFileName(value.name)) {
+    return { name: value.name, text: "", encoding: "xlsx", workbook: bytes };
+  }
+  const { text, encoding } = decodeCsvBytes(bytes);
+  return { name: value.name, text, encoding, workbook: null };
+}
+
+const SUBMISSION_FILE_FIELDS = ["ligand_csv", "target_csv", "pairs_csv"];
+// Room for the non-file form fields and multipart boundaries.
+const FORM_OVERHEAD_BYTES = 1024 * 1024;
+
+// Rejects an oversized upload from its Content-Length, before the body is
+// buffered by request.formData(). Requests without the header fall through to
+// the per-file check in readSubmissionForm.
+export function checkSubmissionSize(request: Request): SubmissionError | null {
+  const { maxFileMb } = submissionLimits();
+  const length = Number.parseInt(request.headers.get("content-length") ?? "", 10);
+  const maxBytes =
+    maxFileMb * 1024 * 1024 * SUBMISSION_FILE_FIELDS.length + FORM_OVERHEAD_BYTES;
+
+  return Number.isFinite(length) && length > maxBytes
+    ? { error: `업로드가 너무 큽니다 (파일당 최대 ${maxFileMb}MB).`, status: 413 }
+    : null;
+}
+
+export async function readSubmissionForm(
+  formData: FormData
+): Promise<SubmissionRequest | SubmissionError> {
+  // Per-file limit; the body is already buffered here, so this only keeps
+  // oversized files from being decoded and parsed.
+  const { maxFileMb } = submissionLimits();
+  for (const field of SUBMISSION_FILE_FIELDS) {
+    const value = formData.get(field);
+    if (value instanceof File && value.size > maxFileMb * 1024 * 1024) {
+      return {
+        error: `파일이 너무 큽니다: ${value.name} (최대 ${maxFileMb}MB)`,
+        status: 413,
+      };
+    }
+  }
+
+  // `indication_ids` may repeat; a lone `indication_id` is still accepted.
+  const requestedIndicationIds = formData.getAll("indication_ids").length
+    ? formData.getAll("indication_ids")
+    : formData.getAll("indication_id");
+
+  return {
+    mode:
+      formData.get("mode") === SUBMISSION_MODE_PAIRED
+        ? SUBMISSION_MODE_PAIRED
+        : SUBMISSION_MODE_CARTESIAN,
+    memo: (formData.get("memo") ?? "").toString(),
+    indicationIds: Array.from(
+      new Set(
+        requestedIndicationIds
+          .map((value) => value.toString().trim())
+          .filter((value) => Boolean(value))
+      )
+    ),
+    ligandNameField: (formData.get("ligand_name_field") ?? "").toString().trim(),
+    ligandSheet: (formData.get("ligand_sheet") ?? "").toString(),
+    targetSheet: (formData.get("target_sheet") ?? "").toString(),
+    ligandFile: await readFormFile(formData.get("ligand_csv")),
+    targetFile: await readFormFile(formData.get("target_csv")),
+    pairsFile: await readFormFile(formData.get("pairs_csv")),
+    columnMapping: parseColumnMapping(formData.get("column_mapping")),
+  };
+}
+
+async function checkIndications(
+  supabase: SupabaseClient,
+  indicationIds: string[]
+): Promise<SubmissionError | null> {
+  if (indicationIds.length > MAX_INDICATIONS) {
+    return {
+      error: `indication은 최대 ${MAX_INDICATIONS}개까지 선택할 수 있습니다.`,
+      status: 400,
+    };
+  }
+
+  let indicationValid = indicationIds.length > 0;
+  try {
+    for (const id of indicationIds) {
+      if (indicationValid && !(await isValidIndication(supabase, id))) {
+        indicationValid = false;
+      }
+    }
+  } catch (error) {
+    console.error("indications.lookup.failed", error);
+    return { error: "indication 확인에 실패했습니다.", status: 500 };
+  }
+
+  return indicationValid
+    ? null
+    : { error: "유효하지 않은 indication 입니다.", status: 400 };
+}
+
+type InputTable = {
+  csv: CsvTable;
+  detection: CsvDetection;
+};
+
+// Reads a CSV upload or one sheet of a workbook into the same header/rows
+// shape, so every later check is shared.
+async function readInputTable(
+  file: SubmissionFile,
+  sheet: string
+): Promise<InputTable | SubmissionError> {
+  if (!file.workbook) {
+    const csv = parseCsv(file.text);
+    return {
+      csv,
+      detection: { encoding: file.encoding, delimiter: csv.delimiter, aliases: csv.aliases },
+    };
+  }
+
+  try {
+    const table = await parseXlsx(file.workbook, sheet);
+    return {
+      csv: table,
+      detection: {
+        encoding: file.encoding,
+        delimiter: "",
+        aliases: table.aliases,
+        sheet: table.sheet,
+      },
+    };
+  } catch (error) {
+    console.error("xlsx.parse.failed", { name: file.name, sheet, error });
+    return {
+      error: sheet
+        ? `엑셀 파일에서 시트를 읽을 수 없습니다: ${sheet}`
+        : "엑셀 파일을 읽을 수 없습니다.",
+      status: 400,
+    };
+  }
+}
+
+type ParsedInputs = {
+  ligands: LigandInput[];
+  targets: TargetInput[];
+  combinations: Array<[number, number]>;
+  detected: SubmissionDetection;
+};
+
+async function parseInputs(
+  request: SubmissionRequest
+): Promise<ParsedInputs | SubmissionError> {
+  if (request.mode === SUBMISSION_MODE_PAIRED) {
+    if (!request.pairsFile) {
+      return { error: "pairs CSV 파일이 필요합니다.", status: 400 };
+    }
+
+    const pairsTable = await readInputTable(request.pairsFile, "");
+    if ("error" in pairsTable) {
+      return pairsTable;
+    }
+    const pairsCsv = applyColumnMapping(
+      "pairs",
+      pairsTable.csv,
+      request.columnMapping.pairs
+    );
+    const pairsHeader = pairsCsv.headers.map((h) => h.toLowerCase());
+    const smilesIndex = pairsHeader.indexOf("smiles");
+    const sequenceIndex = pairsHeader.indexOf("sequence");
+    const ligandNameIndex = pairsHeader.indexOf("ligand_name");
+    const geneNameIndex = pairsHeader.indexOf("gene_name");
+    const uniprotIndex = pairsHeader.indexOf("uniprot");
+    const identifierColumns = ligandIdentifierColumns(pairsHeader, "ligand_name");
+
+    // Without a sequence column, targets come from UniProt accessions in the
+    // `uniprot` or `gene_name` column; without smiles, ligands are looked up
+    // by identifier or `ligand_name`.
+    if (
+      (smilesIndex === -1 && !hasLigandIdentifierColumn(identifierColumns)) ||
+      (sequenceIndex === -1 && uniprotIndex === -1 && geneNameIndex === -1)
+    ) {
+      return {
+        error:
+          "pairs CSV 헤더에 smiles(또는 리간드 식별자)와 sequence(또는 uniprot) 컬럼이 필요합니다.",
+        status: 400,
+        detected: { pairs: pairsTable.detection },
+      };
+    }
+
+    const limitError = checkRowLimits(
+      [["pairs CSV", pairsCsv.rows.length]],
+      pairsCsv.rows.length
+    );
+    if (limitError) {
+      return limitError;
+    }
+
+    return {
+      ligands: await ligandsFromRows(
+        pairsCsv.rows.map((row) => ({
+          smiles: smilesIndex >= 0 ? row[smilesIndex] ?? "" : "",
+          ligandName: ligandNameIndex >= 0 ? row[ligandNameIndex] ?? "" : "",
+          identifier: ligandIdentifierFromRow(row, identifierColumns),
+        }))
+      ),
+      targets: pairsCsv.rows.map((row) =>
+        targetFromSequence(
+          sequenceIndex >= 0 ? row[sequenceIndex] ?? "" : "",
+          geneNameIndex >= 0 ? row[geneNameIndex] ?? "" : "",
+          uniprotIndex >= 0 ? row[uniprotIndex] ?? "" : ""
+        )
+      ),
+      combinations: pairsCsv.rows.map((_, index) => [index, index]),
+      detected: { pairs: pairsTable.detection },
+    };
+  }
+
+  if (!request.ligandFile || !request.targetFile) {
+    return { error: "CSV 파일 2개가 필요합니다.", status: 400 };
+  }
+
+  const ligandText = request.ligandFile.text;
+  const ligandTable = isSdfFileName(request.ligandFile.name)
+    ? null
+    : await readInputTable(request.ligandFile, request.ligandSheet);
+  if (ligandTable && "error" in ligandTable) {
+    return ligandTable;
+  }
+  const ligandCsv = ligandTable
+    ? applyColumnMapping("ligand", ligandTable.csv, request.columnMapping.ligand)
+    : null;
+  const targetText = request.targetFile.text;
+  const targetTable =
+    isFastaFileName(request.targetFile.name) || targetText.trimStart().startsWith(">")
+      ? null
+      : await readInputTable(request.targetFile, request.targetSheet);
+  if (targetTable && "error" in targetTable) {
+    return targetTable;
+  }
+  const targetCsv = targetTable
+    ? applyColumnMapping("target", targetTable.csv, request.columnMapping.target)
+    : fastaToTable(targetText);
+  const detected: SubmissionDetection = {
+    ...(ligandTable && { ligand: ligandTable.detection }),
+    ...(targetTable && { target: targetTable.detection }),
+  };
+
+  const ligandHeader = ligandCsv?.headers.map((h) => h.toLowerCase()) ?? [];
+  const targetHeader = targetCsv.headers.map((h) => h.toLowerCase());
+
+  const smilesIndex = ligandHeader.indexOf("smiles");
+  const sequenceIndex = targetHeader.indexOf("sequence");
+  const ligandNameIndex = ligandHeader.indexOf("name");
+  const geneNameIndex = targetHeader.indexOf("name");
+  const uniprotIndex = targetHeader.indexOf("uniprot");
+  const identifierColumns = ligandIdentifierColumns(ligandHeader, "name");
+
+  if (
+    (ligandCsv &&
+      smilesIndex === -1 &&
+      !hasLigandIdentifierColumn(identifierColumns)) ||
+    (sequenceIndex === -1 && uniprotIndex === -1 && geneNameIndex === -1)
+  ) {
+    return {
+      error:
+        "CSV 헤더에 smiles(또는 리간드 식별자), sequence(또는 uniprot) 컬럼이 필요합니다.",
+      status: 400,
+      detected,
+    };
+  }
+
+  const sdfRecords = ligandCsv ? [] : parseSdf(ligandText);
+  const ligandRowCount = ligandCsv ? ligandCsv.rows.length : sdfRecords.length;
+  const limitError = checkRowLimits(
+    [
+      ["리간드 파일", ligandRowCount],
+      ["타겟 파일", targetCsv.rows.length],
+    ],
+    ligandRowCount * targetCsv.rows.length
+  );
+  if (limitError) {
+    return limitError;
+  }
+
+  const ligands = ligandCsv
+    ? await ligandsFromRows(
+        ligandCsv.rows.map((row) => ({
+          smiles: smilesIndex >= 0 ? row[smilesIndex] ?? "" : "",
+          ligandName: ligandNameIndex >= 0 ? row[ligandNameIndex] ?? "" : "",
+          identifier: ligandIdentifierFromRow(row, identifierColumns),
+        }))
+      )
+    : sdfRecords.map((record) => ({
+        smiles: record.smiles ?? "",
+        smilesCanon: record.smiles,
+        ligandName: (request.ligandNameField
+          ? record.fields[request.ligandNameField] ?? ""
+          : record.name
+        ).trim(),
+        structureError: record.error,
+        source: "sdf",
+        identifier: null,
+        identifierWarning: null,
+      }));
+  const targets = targetCsv.rows.map((row) =>
+    targetFromSequence(
+      sequenceIndex >= 0 ? row[sequenceIndex] ?? "" : "",
+      geneNameIndex >= 0 ? row[geneNameIndex] ?? "" : "",
+      uniprotIndex >= 0 ? row[uniprotIndex] ?? "" : ""
+    )
+  );
+
+  return {
+    ligands,
+    targets,
+    combinations: ligands.flatMap((_, ligandIndex) =>
+      targets.map((_, targetIndex): [number, number] => [ligandIndex, targetIndex])
+    ),
+    detected,
+  };
+}
+
+// Parses and validates a submission and resolves every external identifier,
+// without writing anything. Both the preview and the real insert start here.
+export async function prepareSubmission(
+  supabase: SupabaseClient,
+  request: SubmissionRequest,
+  modelVersion: string,
+  onStage: (stage: SubmissionStage) => Promise<void> = async () => {}
+): Promise<PreparedSubmission | SubmissionError> {
+  await onStage("parsing");
+  const indicationError = await checkIndications(supabase, request.indicationIds);
+  if (indicationError) {
+    return indicationError;
+  }
+
+  const parsed = await parseInputs(request);
+  if ("error" in parsed) {
+    return parsed;
+  }
+
+  const { ligands, targets, combinations, detected } = parsed;
+  if (ligands.length === 0 || targets.length === 0) {
+    return { error: "CSV 데이터 행이 비어 있습니다.", status: 400 };
+  }
+
+  await onStage("targets");
+  const uniprotLookup = await loadUniprotEntries(
+    targets
+      .map((target) => target.uniprotAccession)
+      .filter((value): value is string => Boolean(value))
+  );
+  const proteinTargets = targets.map((target) =>
+    applyUniprotEntry(target, uniprotLookup)
+  );
+
+  // UniProt's Ensembl cross-references take precedence; other targets are
+  // mapped by symbol. A name is only skipped when it is the accession UniProt
+  // resolved, since symbols such as H2BC12 look like accessions too.
+  const geneSymbols = proteinTargets
+    .filter((target) => !target.uniprot?.ensemblGeneIds.length)
+    .filter(
+      (target) =>
+        !target.uniprot ||
+        normalizeUniprotAccession(target.geneName) !== target.uniprot.accession
+    )
+    .map((target) => target.geneName.trim())
+    .filter(Boolean);
+  const uniqueGeneSymbols = Array.from(new Set(geneSymbols));
+  const { genes, lookupFailed } = await resolveEnsemblIds(uniqueGeneSymbols);
+  const targetsWithEnsembl = proteinTargets.map((target) => {
+    const geneName = target.geneName.trim();
+    const gene = target.uniprot?.ensemblGeneIds.length
+      ? resolveGeneMatch({ ids: target.uniprot.ensemblGeneIds, synonym: false })
+      : geneName
+        ? genes.get(geneName)
+        : undefined;
+    return {
+      ...target,
+      targetEnsemblId: gene?.ensemblId ?? null,
+      geneWarnings: [...target.uniprotWarnings, ...(gene?.warnings ?? [])],
+      geneLookupFailed: lookupFailed.has(geneName),
+    };
+  });
+
+  const candidateHashes: string[] = [];
+  const pairs: PreparedPair[] = [];
+
+  for (const [ligandIndex, targetIndex] of combinations) {
+    const ligand = ligands[ligandIndex];
+    const target = targetsWithEnsembl[targetIndex];
+    const warnings = validatePair(ligand, target);
+    const input_hash = inputHashFor(ligand.smilesCanon, target.sequence, modelVersion);
+
+    if (!warnings.length && input_hash) {
+      candidateHashes.push(input_hash);
+    }
+
+    pairs.push({
+      ligand_row: ligandIndex,
+      target_row: targetIndex,
+      smiles: ligand.smiles,
+      smiles_canon: ligand.smilesCanon,
+      sequence: target.sequence,
+      ligand_name: ligand.ligandName.trim() || null,
+      ligand_source: ligand.source,
+      ligand_identifier: ligand.identifier,
+      gene_name: target.geneName.trim() || null,
+      target_ensembl_id: target.targetEnsemblId ?? null,
+      uniprot_accession: target.uniprot?.accession ?? target.uniprotAccession,
+      uniprot_entry_version: target.uniprot?.entryVersion ?? null,
+      uniprot_sequence_version: target.uniprot?.sequenceVersion ?? null,
+      gene_warnings: target.geneWarnings,
+      gene_lookup_failed: target.geneLookupFailed,
+      input_hash,
+      warnings,
+    });
+  }
+
+  await onStage("duplicates");
+  const doneByHash = await fetchDoneByHash(supabase, candidateHashes);
+
+  if (!doneByHash) {
+    return { error: "중복 검사에 실패했습니다.", status: 500 };
+  }
+
+  // One entry per distinct target name (or accession) as it was resolved.
+  const geneSummaries = new Map<string, GeneResolutionSummary>();
+  targetsWithEnsembl.forEach((target) => {
+    const name = target.geneName.trim() || target.uniprotAccession || "";
+    if (!name || geneSummaries.has(name)) {
+      return;
+    }
+    geneSummaries.set(name, {
+      name,
+      uniprot_accession: target.uniprot?.accession ?? target.uniprotAccession,
+      target_ensembl_id: target.targetEnsemblId,
+      warnings: target.geneWarnings,
+      lookup_failed: target.geneLookupFailed,
+    });
+  });
+
+  return {
+    request,
+    modelVersion,
+    pairs,
+    doneByHash,
+    genes: Array.from(geneSummaries.values()),
+    detected,
+  };
+}
+
+function pairStatus(pair: PreparedPair, doneByHash: Map<string, DoneRun>) {
+  if (pair.warnings.length > 0) {
+    return "failed";
+  }
+  return pair.input_hash && doneByHash.has(pair.input_hash) ? "done" : "queued";
+}
+
+export function summarizeStatuses(rows: Array<{ status: string }>) {
+  return rows.reduce<RunStatusSummary>(
+    (acc, row) => {
+      acc.total += 1;
+      if (row.status === "queued") acc.queued += 1;
+      if (row.status === "done") acc.done += 1;
+      if (row.status === "failed") acc.failed += 1;
+      return acc;
+    },
+    { total: 0, queued: 0, done: 0, failed: 0 }
+  );
+}
+
+// What a dry run reports: status and warning counts for every pair, the pairs
+// with warnings (capped), and how each target name was resolved. Association
+// scores are not looked up; they only inform, never block.
+export function summarizePreview(prepared: PreparedSubmission) {
+  const rows = prepared.pairs.map((pair) => ({
+    ligand_row: pair.ligand_row + 1,
+    target_row: pair.target_row + 1,
+    ligand_name: pair.ligand_name,
+    gene_name: pair.gene_name,
+    target_ensembl_id: pair.target_ensembl_id,
+    status: pairStatus(pair, prepared.doneByHash),
+    warnings: [
+      ...pair.warnings,
+      ...pair.gene_warnings,
+      ...(pair.gene_lookup_failed ? [WARNING_ASSOCIATION_UNAVAILABLE] : []),
+    ],
+  }));
+
+  const warningCounts: Record<string, number> = {};
+  rows.forEach((row) => {
+    row.warnings.forEach((code) => {
+      warningCounts[code] = (warningCounts[code] ?? 0) + 1;
+    });
+  });
+
+  const rowsWithWarnings = rows.filter((row) => row.warnings.length > 0);
+  const summary = summarizeStatuses(rows);
+
+  return {
+    mode: prepared.request.mode,
+    pairs: rows.length,
+    summary,
+    cached: summary.done,
+    warning_counts: warningCounts,
+    rows: rowsWithWarnings.slice(0, MAX_PREVIEW_ROWS),
+    rows_truncated: rowsWithWarnings.length > MAX_PREVIEW_ROWS,
+    genes: prepared.genes,
+    detected: prepared.detected,
+  };
+}
+
+// Looks up association scores and turns every prepared pair into a `runs` row.
+export async function buildRunRows(
+  supabase: SupabaseClient,
+  prepared: PreparedSubmission,
+  { userId, batchId, createdAt }: { userId: string; batchId: string; createdAt: string }
+) {
+  const { request, pairs, doneByHash, modelVersion } = prepared;
+  const { indicationIds, memo } = request;
+  const indicationId = indicationIds[0] ?? "";
+
+  const uniqueTargetEnsemblIds = Array.from(
+    new Set(
+      pairs
+        .map((pair) => pair.target_ensembl_id)
+        .filter((value): value is string => Boolean(value))
+    )
+  );
+  const associations = await loadAssociationScores(
+    supabase,
+    indicationIds,
+    uniqueTargetEnsemblIds
+  );
+
+  return pairs.map((pair) => {
+    const status = pairStatus(pair, doneByHash);
+    const prior =
+      status === "done" && pair.input_hash ? doneByHash.get(pair.input_hash) : undefined;
+    // One run per pair: affinity does not depend on the indication, so every
+    // selected indication only adds an entry to association_scores.
+    const associationScores = Object.fromEntries(
+      indicationIds.map((indication) => [
+        indication,
+        pair.target_ensembl_id
+          ? associations.scores.get(
+              associationKey(indication, pair.target_ensembl_id)
+            ) ?? null
+          : null,
+      ])
+    );
+    // Informational only: the prediction itself does not need the score, so
+    // these warnings never change the run status.
+    const associationWarnings = [
+      ...pair.gene_warnings,
+      ...(pair.gene_lookup_failed ||
+      (pair.target_ensembl_id &&
+        indicationIds.some((indication) =>
+          associations.unavailable.has(
+            associationKey(indication, pair.target_ensembl_id as string)
+          )
+        ))
+        ? [WARNING_ASSOCIATION_UNAVAILABLE]
+        : []),
+    ];
+    const warnings = prior
+      ? [WARNING_PREVIOUS_RESULT, ...associationWarnings]
+      : [...pair.warnings, ...associationWarnings];
+
+    return {
+      id: crypto.randomUUID(),
+      user_id: userId,
+      batch_id: batchId,
+      status,
+      memo,
+      created_at: createdAt,
+      smiles: pair.smiles,
+      smiles_canon: pair.smiles_canon,
+      sequence: pair.sequence,
+      ligand_name: pair.ligand_name,
+      ligand_source: pair.ligand_source,
+      ligand_identifier: pair.ligand_identifier,
+      gene_name: pair.gene_name,
+      indication_id: indicationId,
+      indication_ids: indicationIds,
+      target_ensembl_id: pair.target_ensembl_id,
+      uniprot_accession: pair.uniprot_accession,
+      uniprot_entry_version: pair.uniprot_entry_version,
+      uniprot_sequence_version: pair.uniprot_sequence_version,
+      association_score: associationScores[indicationId] ?? null,
+      association_scores: associationScores,
+      association_release: associations.release,
+      affinity_value: prior?.affinity_value ?? null,
+      affinity_prob: prior?.affinity_prob ?? null,
+      input_hash: pair.input_hash,
+      warnings: warnings.length ? warnings : null,
+      model_version: modelVersion,
+    };
+  });
+}
@@ -0,0 +1,54 @@
+import {
+  createClient,
+  type SupabaseClient,
+  type User,
+} from "@supabase/supabase-js";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL ?? "";
+const supabaseServiceKey = process.env.SUPABASE_SECRET_KEY ?? "";
+
+export const isServiceConfigured = Boolean(supabaseUrl && supabaseServiceKey);
+
+export function createServiceClient() {
+  if (!isServiceConfigured) {
+    throw new Error("Supabase service environment variables are missing.");
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+}
+
+// Resolves the user behind an `Authorization: Bearer <access token>` header.
+export async function getRequestUser(supabase: SupabaseClient, request: Request) {
+  const authHeader = request.headers.get("authorization") ?? "";
+  const token = authHeader.startsWith("Bearer ")
+    ? authHeader.slice("Bearer ".length)
+    : "";
+
+  if (!token) {
+    return null;
+  }
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data?.user) {
+    return null;
+  }
+  return data.user;
+}
+
+// Admins are listed in ADMIN_EMAILS (comma separated) or carry
+// `app_metadata.role = "admin"`, which only the service role can set.
+export function isAdminUser(user: User) {
+  if (user.app_metadata?.role === "admin") {
+    return true;
+  }
+  const adminEmails = (process.env.ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+  return Boolean(user.email && adminEmails.includes(user.email.toLowerCase()));
+}
@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ProteinEntry } from "@/lib/providers";
+import { targetFromSequence } from "@/lib/runs";
+import { applyUniprotEntry, loadUniprotEntries } from "@/lib/uniprot";
+import {
+  WARNING_UNIPROT_NOT_FOUND,
+  WARNING_UNIPROT_UNAVAILABLE,
+} from "@/lib/warnings";
+
+const fetchEntries = vi.fn<(accessions: string[]) => Promise<Map<string, ProteinEntry>>>();
+
+vi.mock("@/lib/providers", () => ({
+  getProviders: () => ({ proteins: { fetchEntries } }),
+}));
+
+const P69905: ProteinEntry = {
+  accession: "P69905",
+  sequence: "MVLSPADKTNVKAAWGKVGAHAGEYGAEALERMFLSFPTTKTYFPHF",
+  entryVersion: 200,
+  sequenceVersion: 2,
+  geneSymbol: "HBA1",
+  ensemblGeneIds: ["ENSG00000206172"],
+};
+
+describe("UniProt lookups", () => {
+  beforeEach(() => {
+    fetchEntries.mockReset();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("fills the sequence and name from an entry found by name", async () => {
+    fetchEntries.mockResolvedValue(new Map([["P69905", P69905]]));
+    const target = targetFromSequence("", "P69905");
+    const lookup = await loadUniprotEntries(["P69905"]);
+
+    const result = applyUniprotEntry(target, lookup);
+    expect(result.sequence).toBe(P69905.sequence);
+    expect(result.geneName).toBe("HBA1");
+    expect(result.uniprotAccession).toBe("P69905");
+    expect(result.uniprotWarnings).toEqual([]);
+  });
+
+  it("treats an accession-shaped name UniProt does not know as a symbol", async () => {
+    fetchEntries.mockResolvedValue(new Map());
+    const target = targetFromSequence("", "H2BC12");
+    const lookup = await loadUniprotEntries(["H2BC12"]);
+
+    const result = applyUniprotEntry(target, lookup);
+    expect(result.geneName).toBe("H2BC12");
+    expect(result.uniprotAccession).toBeNull();
+    expect(result.uniprotWarnings).toEqual([]);
+  });
+
+  it("keeps an accession-shaped name when UniProt is unavailable", async () => {
+    fetchEntries.mockRejectedValue(new Error("timeout"));
+    const target = targetFromSequence("", "P69905");
+    const lookup = await loadUniprotEntries(["P69905"]);
+
+    expect(lookup.lookupFailed.has("P69905")).toBe(true);
+    const result = applyUniprotEntry(target, lookup);
+    expect(result.uniprotAccession).toBe("P69905");
+    expect(result.uniprotWarnings).toEqual([WARNING_UNIPROT_UNAVAILABLE]);
+  });
+
+  it("warns about an accession column UniProt does not know", async () => {
+    fetchEntries.mockResolvedValue(new Map());
+    const target = targetFromSequence("", "HBA1", "Q99999");
+    const lookup = await loadUniprotEntries(["Q99999"]);
+
+    const result = applyUniprotEntry(target, lookup);
+    expect(result.geneName).toBe("HBA1");
+    expect(result.uniprotAccession).toBe("Q99999");
+    expect(result.uniprotWarnings).toEqual([WARNING_UNIPROT_NOT_FOUND]);
+  });
+
+  it("keeps a sequence given in the file", async () => {
+    fetchEntries.mockResolvedValue(new Map([["P69905", P69905]]));
+    const target = targetFromSequence("MKT", "", "P69905");
+    const lookup = await loadUniprotEntries(["P69905"]);
+
+    expect(applyUniprotEntry(target, lookup).sequence).toBe("MKT");
+  });
+});
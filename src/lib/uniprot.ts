@@ -0,0 +1,94 @@
+import { getProviders, type ProteinEntry } from "@/lib/providers";
+import type { TargetInput } from "@/lib/runs";
+import { normalizeSequence } from "@/lib/sequence";
+import {
+  WARNING_UNIPROT_NOT_FOUND,
+  WARNING_UNIPROT_UNAVAILABLE,
+} from "@/lib/warnings";
+
+// UniProtKB accession format (canonical entries only, no isoform suffix).
+const UNIPROT_ACCESSION =
+  /^([OPQ][0-9][A-Z0-9]{3}[0-9]|[A-NR-Z][0-9]([A-Z][A-Z0-9]{2}[0-9]){1,2})$/;
+
+export type UniprotLookup = {
+  entries: Map<string, ProteinEntry>;
+  // Accessions that could not be looked up at all, as opposed to accessions
+  // UniProt does not know.
+  lookupFailed: Set<string>;
+};
+
+export type UniprotTarget = TargetInput & {
+  uniprot: ProteinEntry | null;
+  uniprotWarnings: string[];
+};
+
+export function normalizeUniprotAccession(value: string) {
+  const upper = value.trim().toUpperCase();
+  return UNIPROT_ACCESSION.test(upper) ? upper : null;
+}
+
+export async function loadUniprotEntries(accessions: string[]): Promise<UniprotLookup> {
+  const unique = Array.from(new Set(accessions));
+  const lookupFailed = new Set<string>();
+  if (unique.length === 0) {
+    return { entries: new Map(), lookupFailed };
+  }
+
+  try {
+    return {
+      entries: await getProviders().proteins.fetchEntries(unique),
+      lookupFailed,
+    };
+  } catch (error) {
+    console.error("uniprot.lookup.failed", error);
+    unique.forEach((accession) => lookupFailed.add(accession));
+    return { entries: new Map(), lookupFailed };
+  }
+}
+
+// Fills a missing sequence (and a missing or accession-only name) from the
+// target's UniProt entry. A sequence given in the file always wins. A name
+// that only looks like an accession and that UniProt does not know is left
+// as a gene symbol, without an accession or a warning; when UniProt could
+// not be asked, the accession stays so a retry can look it up again.
+export function applyUniprotEntry(
+  target: TargetInput,
+  lookup: UniprotLookup
+): UniprotTarget {
+  const accession = target.uniprotAccession;
+  if (!accession) {
+    return { ...target, uniprot: null, uniprotWarnings: [] };
+  }
+
+  const entry = lookup.entries.get(accession);
+  if (!entry && target.accessionFromName && !lookup.lookupFailed.has(accession)) {
+    return {
+      ...target,
+      uniprotAccession: null,
+      accessionFromName: false,
+      uniprot: null,
+      uniprotWarnings: [],
+    };
+  }
+  if (!entry) {
+    return {
+      ...target,
+      uniprot: null,
+      uniprotWarnings: [
+        lookup.lookupFailed.has(accession)
+          ? WARNING_UNIPROT_UNAVAILABLE
+          : WARNING_UNIPROT_NOT_FOUND,
+      ],
+    };
+  }
+
+  const nameIsAccession =
+    !target.geneName || normalizeUniprotAccession(target.geneName) === accession;
+  return {
+    ...target,
+    ...(target.sequence ? {} : normalizeSequence(entry.sequence)),
+    geneName: nameIsAccession ? entry.geneSymbol ?? target.geneName : target.geneName,
+    uniprot: entry,
+    uniprotWarnings: [],
+  };
+}
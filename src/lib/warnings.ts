@@ -0,0 +1,70 @@
+export const WARNING_INVALID_SMILES = "invalid_smiles";
+export const WARNING_INVALID_STRUCTURE = "invalid_structure";
+export const WARNING_SEQUENCE_MISSING = "sequence_missing";
+export const WARNING_SEQUENCE_TOO_LONG = "sequence_too_long";
+export const WARNING_SEQUENCE_INVALID_CHARACTERS = "sequence_invalid_characters";
+export const WARNING_SEQUENCE_NONCANONICAL = "sequence_noncanonical_residues";
+export const WARNING_SEQUENCE_NUCLEOTIDE = "sequence_nucleotide_like";
+export const WARNING_WORKER_FAILED = "worker_failed";
+export const WARNING_PREVIOUS_RESULT = "previous_result_available";
+export const WARNING_ASSOCIATION_UNAVAILABLE = "association_unavailable";
+export const WARNING_GENE_SYMBOL_UNRESOLVED = "gene_symbol_unresolved";
+export const WARNING_GENE_SYMBOL_AMBIGUOUS = "gene_symbol_ambiguous";
+export const WARNING_GENE_SYMBOL_DEPRECATED = "gene_symbol_deprecated";
+export const WARNING_GENE_ID_VERSIONED = "gene_id_versioned";
+export const WARNING_GENE_ID_NON_HUMAN = "gene_id_non_human";
+export const WARNING_UNIPROT_NOT_FOUND = "uniprot_not_found";
+export const WARNING_UNIPROT_UNAVAILABLE = "uniprot_unavailable";
+export const WARNING_LIGAND_IDENTIFIER_UNRESOLVED = "ligand_identifier_unresolved";
+export const WARNING_LIGAND_IDENTIFIER_AMBIGUOUS = "ligand_identifier_ambiguous";
+export const WARNING_LIGAND_IDENTIFIER_UNAVAILABLE = "ligand_identifier_unavailable";
+
+// Gene mapping problems only affect the association score, never the run
+// status, and are replaced whenever the mapping is corrected.
+export const GENE_WARNINGS = [
+  WARNING_GENE_SYMBOL_UNRESOLVED,
+  WARNING_GENE_SYMBOL_AMBIGUOUS,
+  WARNING_GENE_SYMBOL_DEPRECATED,
+  WARNING_GENE_ID_VERSIONED,
+  WARNING_GENE_ID_NON_HUMAN,
+];
+
+export const WARNING_DESCRIPTIONS: Record<string, string> = {
+  invalid_smiles: "SMILES를 해석할 수 없습니다. 문법이나 원자가(valence)를 확인하세요.",
+  invalid_structure: "SDF 레코드를 구조로 변환하지 못했습니다.",
+  sequence_missing: "타겟 sequence가 비어 있습니다.",
+  sequence_too_long: "sequence가 길이 제한(1280)을 초과합니다.",
+  sequence_invalid_characters: "sequence에 아미노산이 아닌 문자가 포함되어 있습니다.",
+  sequence_noncanonical_residues:
+    "sequence에 비표준 잔기(B, J, O, U, X, Z)가 포함되어 있습니다.",
+  sequence_nucleotide_like:
+    "sequence가 단백질이 아닌 DNA/RNA 염기서열로 보입니다.",
+  worker_failed: "worker가 예측 중 오류를 보고했습니다.",
+  previous_result_available:
+    "같은 입력(canonical SMILES, sequence, model version)의 이전 결과를 재사용했습니다.",
+  association_unavailable:
+    "외부 조회(Ensembl/OpenTargets) 실패로 association score를 가져오지 못했습니다.",
+  gene_symbol_unresolved:
+    "gene 이름을 Ensembl 유전자로 찾을 수 없어 association을 조회하지 못했습니다.",
+  gene_symbol_ambiguous:
+    "gene 이름이 여러 Ensembl 유전자에 해당합니다. 매핑을 직접 지정하세요.",
+  gene_symbol_deprecated:
+    "gene 이름이 이전 심볼 또는 동의어입니다. 현재 심볼의 유전자로 매핑했습니다.",
+  gene_id_versioned:
+    "Ensembl ID의 버전 접미사(.N)를 제거하고 사용했습니다.",
+  gene_id_non_human:
+    "사람이 아닌 종의 Ensembl 유전자입니다. association은 사람 유전자만 조회합니다.",
+  uniprot_not_found: "UniProt에서 accession을 찾을 수 없습니다.",
+  uniprot_unavailable:
+    "UniProt 조회에 실패해 sequence와 유전자 매핑을 가져오지 못했습니다.",
+  ligand_identifier_unresolved:
+    "리간드 식별자(PubChem CID, ChEMBL ID, InChIKey, 이름)로 구조를 찾을 수 없습니다.",
+  ligand_identifier_ambiguous:
+    "리간드 식별자가 서로 다른 구조 여러 개에 해당합니다. SMILES를 직접 지정하세요.",
+  ligand_identifier_unavailable:
+    "외부 조회(PubChem/ChEMBL) 실패로 리간드 구조를 가져오지 못했습니다. 재시도하세요.",
+};
+
+export function describeWarning(code: string) {
+  return WARNING_DESCRIPTIONS[code] ?? "알 수 없는 경고입니다.";
+}
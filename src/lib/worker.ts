@@ -0,0 +1,93 @@
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+
+const DEFAULT_LEASE_SECONDS = 300;
+const MAX_CLAIM_LIMIT = 50;
+export const MAX_HEARTBEAT_RUN_IDS = 500;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type AffinityResult = {
+  affinityValue: number;
+  affinityProb: number;
+};
+
+export function leaseSeconds() {
+  const parsed = Number.parseInt(process.env.WORKER_LEASE_SECONDS ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_LEASE_SECONDS;
+}
+
+function safeEqual(left: string, right: string) {
+  const leftBuffer = Buffer.from(left);
+  const rightBuffer = Buffer.from(right);
+  return (
+    leftBuffer.length === rightBuffer.length &&
+    crypto.timingSafeEqual(leftBuffer, rightBuffer)
+  );
+}
+
+// Returns an error response when the request does not carry WORKER_API_KEY.
+export function authorizeWorker(request: Request) {
+  const workerKey = process.env.WORKER_API_KEY ?? "";
+  if (!workerKey) {
+    return NextResponse.json(
+      { error: "서버 설정이 필요합니다." },
+      { status: 500 }
+    );
+  }
+
+  const authHeader = request.headers.get("authorization") ?? "";
+  const token = authHeader.startsWith("Bearer ")
+    ? authHeader.slice("Bearer ".length)
+    : "";
+
+  if (!token || !safeEqual(token, workerKey)) {
+    return NextResponse.json({ error: "인증이 필요합니다." }, { status: 401 });
+  }
+
+  return null;
+}
+
+export function readWorkerId(body: Record<string, unknown>) {
+  const workerId = typeof body.worker_id === "string" ? body.worker_id.trim() : "";
+  return workerId || null;
+}
+
+export function readClaimLimit(body: Record<string, unknown>) {
+  const limit = typeof body.limit === "number" ? Math.floor(body.limit) : 1;
+  return Math.min(Math.max(limit, 1), MAX_CLAIM_LIMIT);
+}
+
+// Run ids are checked here so a malformed one is a 400, not a database error.
+export function isRunId(value: string) {
+  return UUID.test(value);
+}
+
+export function readRunIds(body: Record<string, unknown>) {
+  if (typeof body.run_id === "string") {
+    return [body.run_id];
+  }
+  if (Array.isArray(body.run_ids)) {
+    return body.run_ids.filter((id): id is string => typeof id === "string");
+  }
+  return [];
+}
+
+// affinity_value is the model's regression output; affinity_prob is a
+// probability and must stay within [0, 1].
+export function parseAffinityResult(
+  body: Record<string, unknown>
+): AffinityResult | null {
+  const { affinity_value: affinityValue, affinity_prob: affinityProb } = body;
+  if (typeof affinityValue !== "number" || !Number.isFinite(affinityValue)) {
+    return null;
+  }
+  if (
+    typeof affinityProb !== "number" ||
+    !Number.isFinite(affinityProb) ||
+    affinityProb < 0 ||
+    affinityProb > 1
+  ) {
+    return null;
+  }
+  return { affinityValue, affinityProb };
+}
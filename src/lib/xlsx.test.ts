@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import { parseXlsx } from "@/lib/xlsx";
+
+type ZipFile = { name: string; text: string; deflate?: boolean };
+
+async function deflateRaw(data: Uint8Array) {
+  const stream = new Blob([new Uint8Array(data)])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Just enough of a ZIP writer for the reader: local headers, a central
+// directory and its end record. CRCs are left at zero; the reader ignores them.
+async function zip(files: ZipFile[]) {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const raw = encoder.encode(file.text);
+    const data = file.deflate ? await deflateRaw(raw) : raw;
+    const method = file.deflate ? 8 : 0;
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(8, method, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, raw.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(10, method, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, raw.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const directorySize = centrals.reduce((sum, entry) => sum + entry.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, files.length, true);
+  endView.setUint16(10, files.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, end];
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    bytes.set(part, position);
+    position += part.length;
+  }
+  return bytes;
+}
+
+const WORKBOOK = `<?xml version="1.0" encoding="UTF-8"?>
+<workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+  <sheets>
+    <sheet name="Ligands" sheetId="1" r:id="rId1"/>
+    <sheet name="Notes &amp; more" sheetId="2" r:id="rId2"/>
+  </sheets>
+</workbook>`;
+
+const RELS = `<Relationships>
+  <Relationship Id="rId1" Target="worksheets/sheet1.xml" Type="worksheet"/>
+  <Relationship Id="rId2" Target="/xl/worksheets/sheet2.xml" Type="worksheet"/>
+</Relationships>`;
+
+const SHARED = `<sst>
+  <si><t>smiles</t></si>
+  <si><t>Compound</t></si>
+  <si><r><t>ethan</t></r><r><t>ol</t></r><rPh><t>ignored</t></rPh></si>
+  <si><t>00123</t></si>
+</sst>`;
+
+const SHEET1 = `<worksheet><sheetData>
+  <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="D1" t="inlineStr"><is><t>Note</t></is></c></row>
+  <row r="2"><c r="A2" t="str"><v>CCO</v></c><c r="B2" t="s"><v>2</v></c><c r="C2"><v>0.1</v></c><c r="D2" t="b"><v>1</v></c></row>
+  <row r="3"/>
+  <row r="4"><c r="A4" t="inlineStr"><is><t>C&lt;C</t></is></c><c r="B4" t="s"><v>3</v></c></row>
+</sheetData></worksheet>`;
+
+const SHEET2 = `<worksheet><sheetData>
+  <row r="1"><c r="A1" t="inlineStr"><is><t>memo</t></is></c></row>
+  <row r="2"><c r="A2" t="inlineStr"><is><t>line_x000D_break</t></is></c></row>
+</sheetData></worksheet>`;
+
+async function workbook(deflate: boolean) {
+  return zip([
+    { name: "xl/workbook.xml", text: WORKBOOK, deflate },
+    { name: "xl/_rels/workbook.xml.rels", text: RELS, deflate },
+    { name: "xl/sharedStrings.xml", text: SHARED, deflate },
+    { name: "xl/worksheets/sheet1.xml", text: SHEET1, deflate },
+    { name: "xl/worksheets/sheet2.xml", text: SHEET2, deflate },
+  ]);
+}
+
+describe("parseXlsx", () => {
+  it.each([false, true])("reads the first sheet (deflated: %s)", async (deflate) => {
+    const table = await parseXlsx(await workbook(deflate));
+
+    expect(table.sheet).toBe("Ligands");
+    expect(table.sheets).toEqual(["Ligands", "Notes & more"]);
+    expect(table.headers).toEqual(["smiles", "Compound", "", "Note"]);
+    expect(table.rows).toEqual([
+      ["CCO", "ethanol", "0.1", "TRUE"],
+      ["C<C", "00123"],
+    ]);
+  });
+
+  it("reads a sheet by name", async () => {
+    const table = await parseXlsx(await workbook(true), "Notes & more");
+
+    expect(table.sheet).toBe("Notes & more");
+    expect(table.headers).toEqual(["memo"]);
+    expect(table.rows).toEqual([["line\rbreak"]]);
+  });
+
+  it("rejects unknown sheets and files that are not workbooks", async () => {
+    await expect(parseXlsx(await workbook(false), "Missing")).rejects.toThrow(
+      "sheet not found: Missing"
+    );
+    await expect(parseXlsx(new TextEncoder().encode("smiles\nCCO\n"))).rejects.toThrow(
+      "not a zip archive"
+    );
+    await expect(
+      parseXlsx(await zip([{ name: "word/document.xml", text: "<w/>" }]))
+    ).rejects.toThrow("not an xlsx workbook");
+  });
+});
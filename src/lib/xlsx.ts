@@ -0,0 +1,276 @@
+import { tableFromRows, type CsvTable } from "@/lib/csv";
+
+// Minimal reader for Office Open XML workbooks: enough of ZIP and
+// SpreadsheetML to turn one sheet into header/rows. Runs in the browser and
+// on the server; inflating relies on DecompressionStream.
+export type XlsxTable = CsvTable & {
+  sheet: string;
+  sheets: string[];
+};
+
+const XLSX_EXTENSIONS = [".xlsx"];
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+const ZIP_STORED = 0;
+const ZIP_DEFLATED = 8;
+
+type ZipEntry = {
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+};
+
+type WorkbookSheet = {
+  name: string;
+  path: string;
+};
+
+export function isXlsxFileName(name: string) {
+  const lowered = name.toLowerCase();
+  return XLSX_EXTENSIONS.some((extension) => lowered.endsWith(extension));
+}
+
+function fail(message: string): never {
+  throw new Error(message);
+}
+
+function readZipDirectory(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end-of-directory record sits in the last 22 bytes plus a comment of
+  // at most 64 KiB.
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i -= 1) {
+    if (view.getUint32(i, true) === ZIP_END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    fail("not a zip archive");
+  }
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < count; i += 1) {
+    if (view.getUint32(offset, true) !== ZIP_CENTRAL_HEADER) {
+      fail("corrupt zip directory");
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function inflateRaw(data: Uint8Array) {
+  const stream = new Blob([new Uint8Array(data)])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function readZipText(
+  bytes: Uint8Array,
+  entries: Map<string, ZipEntry>,
+  name: string
+): Promise<string | null> {
+  const entry = entries.get(name);
+  if (!entry) {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint32(entry.localOffset, true) !== ZIP_LOCAL_HEADER) {
+    fail(`corrupt zip entry ${name}`);
+  }
+  const start =
+    entry.localOffset +
+    30 +
+    view.getUint16(entry.localOffset + 26, true) +
+    view.getUint16(entry.localOffset + 28, true);
+  const data = bytes.subarray(start, start + entry.compressedSize);
+
+  if (entry.method === ZIP_STORED) {
+    return new TextDecoder().decode(data);
+  }
+  if (entry.method === ZIP_DEFLATED) {
+    return new TextDecoder().decode(await inflateRaw(data));
+  }
+  return fail(`unsupported zip compression ${entry.method}`);
+}
+
+function decodeXml(text: string) {
+  return text
+    .replace(/&(lt|gt|amp|quot|apos|#\d+|#x[0-9a-fA-F]+);/g, (_, entity: string) => {
+      switch (entity) {
+        case "lt":
+          return "<";
+        case "gt":
+          return ">";
+        case "amp":
+          return "&";
+        case "quot":
+          return "\"";
+        case "apos":
+          return "'";
+        default:
+          return String.fromCodePoint(
+            entity[1] === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+          );
+      }
+    })
+    // Excel escapes control characters such as CR as _x000D_.
+    .replace(/_x([0-9a-fA-F]{4})_/g, (_, code: string) =>
+      String.fromCharCode(parseInt(code, 16))
+    );
+}
+
+function attributes(tag: string) {
+  const result: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:]+)="([^"]*)"/g)) {
+    result[match[1]] = decodeXml(match[2]);
+  }
+  return result;
+}
+
+// Text of every <t> in an element, skipping phonetic (<rPh>) runs.
+function elementText(xml: string) {
+  const text = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, "");
+  let result = "";
+  for (const match of text.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)) {
+    result += decodeXml(match[1]);
+  }
+  return result;
+}
+
+function parseSharedStrings(xml: string | null) {
+  if (!xml) {
+    return [];
+  }
+  return Array.from(xml.matchAll(/<si>([\s\S]*?)<\/si>|<si\/>/g), (match) =>
+    match[1] ? elementText(match[1]) : ""
+  );
+}
+
+function resolveSheetPath(target: string) {
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+}
+
+function parseWorkbookSheets(workbookXml: string, relsXml: string): WorkbookSheet[] {
+  const targets = new Map<string, string>();
+  for (const match of relsXml.matchAll(/<Relationship\b[^>]*>/g)) {
+    const attrs = attributes(match[0]);
+    if (attrs.Id && attrs.Target) {
+      targets.set(attrs.Id, attrs.Target);
+    }
+  }
+
+  return Array.from(workbookXml.matchAll(/<sheet\b[^>]*>/g), (match) => {
+    const attrs = attributes(match[0]);
+    const target = targets.get(attrs["r:id"] ?? "");
+    return target ? { name: attrs.name ?? "", path: resolveSheetPath(target) } : null;
+  }).filter((sheet): sheet is WorkbookSheet => Boolean(sheet));
+}
+
+// "AB12" → 27 (zero-based column).
+function columnIndex(reference: string) {
+  let index = 0;
+  for (const char of reference) {
+    if (char < "A" || char > "Z") {
+      break;
+    }
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function cellValue(attrs: Record<string, string>, body: string, shared: string[]) {
+  const value = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+  switch (attrs.t) {
+    case "s":
+      return shared[Number(value)] ?? "";
+    case "inlineStr":
+      return elementText(body);
+    case "b":
+      return value === "1" ? "TRUE" : "FALSE";
+    case "str":
+    case "e":
+    case "d":
+      return value === undefined ? "" : decodeXml(value);
+    default:
+      // Numbers keep their shortest form, so 0.1 does not come back as
+      // 0.10000000000000001. Text cells (leading zeros) are shared strings.
+      return value === undefined || value === "" ? "" : String(Number(value));
+  }
+}
+
+function parseSheetRows(xml: string, shared: string[]) {
+  const rows: string[][] = [];
+
+  for (const rowMatch of xml.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const row: string[] = [];
+    const body = rowMatch[1] ?? "";
+    for (const cellMatch of body.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = attributes(cellMatch[1]);
+      const index = attrs.r ? columnIndex(attrs.r) : row.length;
+      while (row.length < index) {
+        row.push("");
+      }
+      row[index] = cellValue(attrs, cellMatch[2] ?? "", shared);
+    }
+    rows.push(row.map((cell) => cell ?? ""));
+  }
+
+  return rows;
+}
+
+async function openWorkbook(bytes: Uint8Array) {
+  const entries = readZipDirectory(bytes);
+  const workbookXml = await readZipText(bytes, entries, "xl/workbook.xml");
+  const relsXml = await readZipText(bytes, entries, "xl/_rels/workbook.xml.rels");
+  if (!workbookXml || !relsXml) {
+    fail("not an xlsx workbook");
+  }
+  return { entries, sheets: parseWorkbookSheets(workbookXml, relsXml) };
+}
+
+// Reads one sheet, the first when `sheetName` is empty. Throws when the file
+// is not a workbook or has no such sheet.
+export async function parseXlsx(bytes: Uint8Array, sheetName = ""): Promise<XlsxTable> {
+  const { entries, sheets } = await openWorkbook(bytes);
+  const sheet = sheetName
+    ? sheets.find((candidate) => candidate.name === sheetName)
+    : sheets[0];
+  if (!sheet) {
+    fail(sheetName ? `sheet not found: ${sheetName}` : "workbook has no sheets");
+  }
+
+  const sheetXml = await readZipText(bytes, entries, sheet.path);
+  if (!sheetXml) {
+    fail(`missing sheet part ${sheet.path}`);
+  }
+  const shared = parseSharedStrings(
+    await readZipText(bytes, entries, "xl/sharedStrings.xml")
+  );
+
+  return {
+    ...tableFromRows(parseSheetRows(sheetXml, shared)),
+    sheet: sheet.name,
+    sheets: sheets.map((candidate) => candidate.name),
+  };
+}
@@ -0,0 +1,45 @@
+-- One row per POST /api/runs submission; runs point back to it via batch_id.
+create table if not exists public.batches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  mode text not null default 'cartesian',
+  indication_id text not null,
+  memo text,
+  ligand_file_name text,
+  target_file_name text,
+  pairs_file_name text,
+  pair_count integer not null default 0,
+  total integer not null default 0,
+  queued integer not null default 0,
+  done integer not null default 0,
+  failed integer not null default 0
+);
+
+create index if not exists batches_user_id_created_at_idx
+  on public.batches (user_id, created_at desc);
+
+alter table public.batches enable row level security;
+
+create policy "batches_select_own" on public.batches
+  for select using (auth.uid() = user_id);
+
+alter table public.runs
+  add column if not exists batch_id uuid references public.batches (id) on delete set null;
+
+create index if not exists runs_batch_id_idx on public.runs (batch_id);
+
+-- The counts stored on batches are the submission-time summary; this view
+-- gives the live status breakdown for progress bars.
+create or replace view public.batch_progress
+with (security_invoker = true) as
+select
+  batch_id,
+  count(*)::integer as total,
+  count(*) filter (where status = 'queued')::integer as queued,
+  count(*) filter (where status = 'running')::integer as running,
+  count(*) filter (where status = 'done')::integer as done,
+  count(*) filter (where status = 'failed')::integer as failed
+from public.runs
+where batch_id is not null
+group by batch_id;
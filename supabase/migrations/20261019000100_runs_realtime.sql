@@ -0,0 +1,2 @@
+-- Stream runs row changes to the app; RLS still limits each user to their own rows.
+alter publication supabase_realtime add table public.runs;
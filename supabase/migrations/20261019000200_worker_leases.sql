@@ -0,0 +1,63 @@
+-- Lease bookkeeping for the compute workers behind /api/worker/*.
+alter table public.runs
+  add column if not exists worker_id text,
+  add column if not exists lease_expires_at timestamptz,
+  add column if not exists started_at timestamptz,
+  add column if not exists finished_at timestamptz,
+  add column if not exists error_message text;
+
+create index if not exists runs_status_created_at_idx
+  on public.runs (status, created_at);
+
+-- Puts runs whose lease ran out back in the queue so another worker can pick
+-- them up.
+create or replace function public.expire_run_leases()
+returns integer
+language sql
+as $$
+  with expired as (
+    update public.runs
+    set status = 'queued',
+        worker_id = null,
+        lease_expires_at = null,
+        started_at = null
+    where status = 'running'
+      and lease_expires_at < now()
+    returning 1
+  )
+  select count(*)::integer from expired;
+$$;
+
+-- Leases up to p_limit queued runs, oldest first. SKIP LOCKED keeps two
+-- concurrent claims from handing out the same row.
+create or replace function public.claim_runs(
+  p_worker_id text,
+  p_limit integer,
+  p_lease_seconds integer
+)
+returns setof public.runs
+language plpgsql
+as $$
+begin
+  perform public.expire_run_leases();
+
+  return query
+  update public.runs as r
+  set status = 'running',
+      worker_id = p_worker_id,
+      started_at = now(),
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds)
+  where r.id in (
+    select id
+    from public.runs
+    where status = 'queued'
+    order by created_at
+    limit p_limit
+    for update skip locked
+  )
+  returning r.*;
+end;
+$$;
+
+revoke execute on function public.expire_run_leases() from public, anon, authenticated;
+revoke execute on function public.claim_runs(text, integer, integer) from public, anon, authenticated;
@@ -0,0 +1,19 @@
+-- Users can cancel queued runs; cancelled runs can be retried like failed ones.
+alter table public.runs drop constraint if exists runs_status_check;
+alter table public.runs
+  add constraint runs_status_check
+  check (status in ('queued', 'running', 'done', 'failed', 'cancelled'));
+
+create or replace view public.batch_progress
+with (security_invoker = true) as
+select
+  batch_id,
+  count(*)::integer as total,
+  count(*) filter (where status = 'queued')::integer as queued,
+  count(*) filter (where status = 'running')::integer as running,
+  count(*) filter (where status = 'done')::integer as done,
+  count(*) filter (where status = 'failed')::integer as failed,
+  count(*) filter (where status = 'cancelled')::integer as cancelled
+from public.runs
+where batch_id is not null
+group by batch_id;
@@ -0,0 +1,21 @@
+-- Indication catalog used by the submission form and POST /api/runs.
+-- Admins add rows through POST /api/indications (or directly here).
+create table if not exists public.indications (
+  id text primary key,
+  label text not null,
+  enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  created_by uuid references auth.users (id) on delete set null
+);
+
+create index if not exists indications_label_idx
+  on public.indications (lower(label));
+
+alter table public.indications enable row level security;
+
+create policy "indications_select_authenticated" on public.indications
+  for select to authenticated using (true);
+
+insert into public.indications (id, label)
+values ('EFO_0000565', 'Leukemia')
+on conflict (id) do nothing;
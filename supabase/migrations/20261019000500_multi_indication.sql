@@ -0,0 +1,18 @@
+-- A submission can target several indications. indication_id and
+-- association_score keep the first selection for older readers.
+alter table public.batches
+  add column if not exists indication_ids text[];
+
+alter table public.runs
+  add column if not exists indication_ids text[],
+  add column if not exists association_scores jsonb;
+
+update public.batches
+set indication_ids = array[indication_id]
+where indication_ids is null;
+
+update public.runs
+set indication_ids = array[indication_id],
+    association_scores = jsonb_build_object(indication_id, association_score)
+where indication_ids is null
+  and indication_id is not null;
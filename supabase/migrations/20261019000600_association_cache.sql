@@ -0,0 +1,20 @@
+-- OpenTargets association scores keyed by indication, target and the data
+-- release that produced them. A null score means "no association" and is
+-- cached like any other value.
+create table if not exists public.association_cache (
+  indication_id text not null,
+  target_ensembl_id text not null,
+  data_release text not null,
+  score double precision,
+  fetched_at timestamptz not null default now(),
+  primary key (indication_id, target_ensembl_id, data_release)
+);
+
+create index if not exists association_cache_fetched_at_idx
+  on public.association_cache (fetched_at);
+
+-- Only the service role reads or writes the cache.
+alter table public.association_cache enable row level security;
+
+alter table public.runs
+  add column if not exists association_release text;
@@ -0,0 +1,6 @@
+-- UniProt entry a run's target came from, with the entry and sequence
+-- versions that were current when the run was submitted.
+alter table public.runs
+  add column if not exists uniprot_accession text,
+  add column if not exists uniprot_entry_version integer,
+  add column if not exists uniprot_sequence_version integer;
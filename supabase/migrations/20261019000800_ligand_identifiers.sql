@@ -0,0 +1,6 @@
+-- Where a run's ligand structure came from: `smiles` or `sdf` for uploaded
+-- structures, otherwise the provider record (e.g. `pubchem:cid:2244`). The
+-- identifier it was resolved from is kept as `kind:value`.
+alter table public.runs
+  add column if not exists ligand_source text,
+  add column if not exists ligand_identifier text;
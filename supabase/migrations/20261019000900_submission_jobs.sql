@@ -0,0 +1,26 @@
+-- Background processing of POST /api/runs. The route answers with a job id
+-- right away; the job records which stage it reached so the form can poll
+-- GET /api/jobs/[id]. `result` holds the response the route used to return,
+-- or the detected file formats when parsing failed.
+create table if not exists public.submission_jobs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  status text not null default 'running',
+  stage text not null default 'queued',
+  progress_done integer,
+  progress_total integer,
+  batch_id uuid references public.batches (id) on delete set null,
+  error text,
+  error_status integer,
+  result jsonb
+);
+
+create index if not exists submission_jobs_user_id_created_at_idx
+  on public.submission_jobs (user_id, created_at desc);
+
+alter table public.submission_jobs enable row level security;
+
+create policy "submission_jobs_select_own" on public.submission_jobs
+  for select using (auth.uid() = user_id);
@@ -0,0 +1,44 @@
+-- Large submissions insert their runs in chunks. Every chunk is written as
+-- `staged`, which workers never claim, with the real status kept aside; one
+-- statement then publishes the whole batch, so a failure part-way leaves only
+-- staged rows to clean up.
+alter table public.runs
+  add column if not exists staged_status text;
+
+alter table public.runs drop constraint if exists runs_status_check;
+alter table public.runs
+  add constraint runs_status_check
+  check (status in ('queued', 'running', 'done', 'failed', 'cancelled', 'staged'));
+
+-- Uncommitted runs are not part of a batch's progress yet.
+create or replace view public.batch_progress
+with (security_invoker = true) as
+select
+  batch_id,
+  count(*)::integer as total,
+  count(*) filter (where status = 'queued')::integer as queued,
+  count(*) filter (where status = 'running')::integer as running,
+  count(*) filter (where status = 'done')::integer as done,
+  count(*) filter (where status = 'failed')::integer as failed,
+  count(*) filter (where status = 'cancelled')::integer as cancelled
+from public.runs
+where batch_id is not null
+  and status <> 'staged'
+group by batch_id;
+
+create or replace function public.commit_staged_runs(p_batch_id uuid)
+returns integer
+language sql
+as $$
+  with committed as (
+    update public.runs
+    set status = staged_status,
+        staged_status = null
+    where batch_id = p_batch_id
+      and status = 'staged'
+    returning 1
+  )
+  select count(*)::integer from committed;
+$$;
+
+revoke execute on function public.commit_staged_runs(uuid) from public, anon, authenticated;
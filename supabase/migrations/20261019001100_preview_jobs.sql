@@ -0,0 +1,11 @@
+-- Dry runs (POST /api/runs/preview) go through submission_jobs as well, so a
+-- large upload is checked in the background instead of within one request.
+-- `result` of a preview job holds the preview itself.
+alter table public.submission_jobs
+  add column if not exists kind text not null default 'submit';
+
+alter table public.submission_jobs
+  drop constraint if exists submission_jobs_kind_check;
+
+alter table public.submission_jobs
+  add constraint submission_jobs_kind_check check (kind in ('submit', 'preview'));
@@ -0,0 +1,35 @@
+-- Resets retried runs in one statement per call instead of one update per
+-- run. Each element of p_runs carries the id and the new column values; only
+-- runs of p_user_id that are still failed or cancelled change, so a run a
+-- worker picked up meanwhile is left alone. Returns the new status of every
+-- run it reset.
+create or replace function public.retry_runs(p_user_id uuid, p_runs jsonb)
+returns setof text
+language sql
+as $$
+  update public.runs as r
+  set status = x.status,
+      smiles = x.smiles,
+      smiles_canon = x.smiles_canon,
+      ligand_source = x.ligand_source,
+      sequence = x.sequence,
+      uniprot_entry_version = x.uniprot_entry_version,
+      uniprot_sequence_version = x.uniprot_sequence_version,
+      input_hash = x.input_hash,
+      model_version = x.model_version,
+      affinity_value = x.affinity_value,
+      affinity_prob = x.affinity_prob,
+      warnings = x.warnings,
+      worker_id = null,
+      lease_expires_at = null,
+      started_at = null,
+      finished_at = null,
+      error_message = null
+  from jsonb_populate_recordset(null::public.runs, p_runs) as x
+  where r.id = x.id
+    and r.user_id = p_user_id
+    and r.status in ('failed', 'cancelled')
+  returning r.status;
+$$;
+
+revoke execute on function public.retry_runs(uuid, jsonb) from public, anon, authenticated;